@@ -0,0 +1,234 @@
+'use client'
+
+import { useCallback, useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import { useAdminStore, Booking, BookingStatus, BookingStatusChange } from '@/store/adminStore'
+import { getPricePerPerson } from '@/lib/packageMapping'
+import { getBookingStatusColor } from '@/lib/bookingStatus'
+import BookingStatusActions from '@/components/BookingStatusActions'
+
+const STATUS_EVENT_LABELS: Record<BookingStatus, string> = {
+  PENDING: 'Marked pending',
+  CONFIRMED: 'Confirmed',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+}
+
+const formatPerson = (person?: BookingStatusChange['changedBy']) => {
+  if (!person) return 'Unknown'
+  const name = [person.firstName, person.lastName].filter(Boolean).join(' ')
+  return name ? `${name} (${person.email})` : person.email
+}
+
+export default function BookingDetailPage() {
+  const { checkAuthStatus, fetchBookingById } = useAdminStore()
+  const params = useParams()
+  const bookingId = params.id as string
+  const [booking, setBooking] = useState<Booking | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  // Also used after a status change so the timeline shows who made it and when
+  const loadBooking = useCallback(async () => {
+    setBooking(await fetchBookingById(bookingId))
+  }, [fetchBookingById, bookingId])
+
+  useEffect(() => {
+    if (!checkAuthStatus()) {
+      window.location.href = '/admin-login'
+      return
+    }
+
+    loadBooking().finally(() => setLoading(false))
+  }, [checkAuthStatus, loadBooking])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading booking...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">Booking not found</p>
+          <button
+            onClick={() => window.location.href = '/bookings'}
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+          >
+            Back to Bookings
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const statusHistory = [...(booking.statusHistory || [])].sort((a, b) =>
+    a.changedAt.localeCompare(b.changedAt)
+  )
+  const customerName = booking.contactName || `${booking.user.firstName} ${booking.user.lastName}`
+  const pricePerPerson = getPricePerPerson(booking.totalPrice, booking.guests)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-6">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Booking Details</h1>
+                <p className="mt-2 text-gray-600">
+                  {customerName} · {booking.package.title}
+                </p>
+              </div>
+              <button
+                onClick={() => window.location.href = '/bookings'}
+                className="bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700"
+              >
+                Back to Bookings
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Trip</h2>
+              <div className="flex items-center space-x-4">
+                <BookingStatusActions booking={booking} onChanged={loadBooking} />
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getBookingStatusColor(booking.status)}`}>
+                  {booking.status}
+                </span>
+              </div>
+            </div>
+            {booking.status === 'CANCELLED' && booking.cancellationReason && (
+              <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+                Cancelled: {booking.cancellationReason}
+              </div>
+            )}
+            <dl className="mt-4 grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Package</dt>
+                <dd className="font-medium text-gray-900">{booking.package.title}</dd>
+                <dd className="text-gray-500">{booking.package.locationName}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Dates</dt>
+                <dd className="font-medium text-gray-900">
+                  {new Date(booking.startDate).toLocaleDateString()}
+                  {booking.endDate && ` to ${new Date(booking.endDate).toLocaleDateString()}`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Guests</dt>
+                <dd className="font-medium text-gray-900">{booking.guests}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Booking ID</dt>
+                <dd className="font-mono text-xs text-gray-900 break-all">{booking.id}</dd>
+              </div>
+            </dl>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Contact</h2>
+            <dl className="mt-4 grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Name</dt>
+                <dd className="font-medium text-gray-900">{customerName}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Email</dt>
+                <dd className="font-medium text-gray-900 break-all">{booking.contactEmail || booking.user.email}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Phone</dt>
+                <dd className="font-medium text-gray-900">{booking.contactPhone || '—'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Account</dt>
+                <dd className="font-medium text-gray-900 break-all">{booking.user.email}</dd>
+              </div>
+            </dl>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Special Requests</h2>
+            {booking.specialRequests ? (
+              <p className="mt-4 text-sm text-gray-700 whitespace-pre-wrap">{booking.specialRequests}</p>
+            ) : (
+              <p className="mt-4 text-sm text-gray-500">No special requests.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Price</h2>
+            <dl className="mt-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Package base price</dt>
+                <dd className="text-gray-900">${booking.package.pricePerPerson.toFixed(2)} / person</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Pricing rules</dt>
+                <dd className="text-right text-gray-900">
+                  {booking.appliedPricingRules
+                    ? booking.appliedPricingRules.join(', ') || 'Base price'
+                    : 'Not recorded'}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Charged per person</dt>
+                <dd className="text-gray-900">${pricePerPerson.toFixed(2)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Guests</dt>
+                <dd className="text-gray-900">× {booking.guests}</dd>
+              </div>
+              <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+                <dt className="text-gray-900">Total</dt>
+                <dd className="text-gray-900">${booking.totalPrice.toFixed(2)}</dd>
+              </div>
+            </dl>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Timeline</h2>
+            <ol className="mt-4 space-y-4 border-l border-gray-200 pl-4 text-sm">
+              <li>
+                <p className="font-medium text-gray-900">Booked</p>
+                <p className="text-gray-500">{new Date(booking.createdAt).toLocaleString()}</p>
+                <p className="text-gray-500">by {formatPerson(booking.user)}</p>
+              </li>
+              {statusHistory.map((change) => (
+                <li key={`${change.status}-${change.changedAt}`}>
+                  <p className="font-medium text-gray-900">{STATUS_EVENT_LABELS[change.status]}</p>
+                  <p className="text-gray-500">{new Date(change.changedAt).toLocaleString()}</p>
+                  <p className="text-gray-500">by {formatPerson(change.changedBy)}</p>
+                  {change.reason && <p className="text-gray-700">Reason: {change.reason}</p>}
+                </li>
+              ))}
+              {/* Older bookings have no history, so fall back to the last update */}
+              {statusHistory.length === 0 && booking.status !== 'PENDING' && (
+                <li>
+                  <p className="font-medium text-gray-900">{STATUS_EVENT_LABELS[booking.status]}</p>
+                  <p className="text-gray-500">{new Date(booking.updatedAt).toLocaleString()}</p>
+                  <p className="text-gray-500">Change not recorded in history</p>
+                </li>
+              )}
+            </ol>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,191 +1,185 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { useAdminStore } from '@/store/adminStore'
-
-interface Booking {
-  id: string
-  startDate: string
-  endDate: string | null
-  guests: number
-  totalPrice: number
-  status: 'PENDING' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED'
-  contactName: string
-  contactEmail: string
-  contactPhone: string
-  specialRequests?: string
-  createdAt: string
-  updatedAt: string
-  user: {
-    email: string
-    firstName: string
-    lastName: string
-  }
-  package: {
-    title: string
-    locationName: string
-    pricePerPerson: number
-  }
+import { Suspense, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useAdminStore, Booking } from '@/store/adminStore'
+import { getPricePerPerson } from '@/lib/packageMapping'
+import { getBookingStatusColor, promptCancellationReason } from '@/lib/bookingStatus'
+import { BookingExportFormat, exportBookings } from '@/lib/bookingExport'
+import { useUrlFilters } from '@/lib/urlFilters'
+import BookingStatusActions from '@/components/BookingStatusActions'
+
+const PAGE_SIZE = 20
+
+// URL parameters are passed to the API under the same names
+const DATE_FILTERS = [
+  { from: 'startDateFrom', to: 'startDateTo', label: 'Travel date' },
+  { from: 'createdFrom', to: 'createdTo', label: 'Booked on' },
+]
+
+interface BulkSummary {
+  action: string
+  succeeded: string[]
+  failed: { id: string, reason: string }[]
 }
 
-export default function BookingsPage() {
-  const { checkAuthStatus, logout } = useAdminStore()
-  const [bookings, setBookings] = useState<Booking[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [selectedStatus, setSelectedStatus] = useState<string>('all')
+const inputClassName = 'border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function BookingsPageContent() {
+  const {
+    checkAuthStatus,
+    bookings,
+    bookingsLoading: loading,
+    bookingsError: error,
+    bookingsPagination,
+    bookingsQuery,
+    fetchBookings,
+    fetchAllBookings,
+    allPackages,
+    allPackagesLoading,
+    fetchAllPackages,
+    confirmBooking,
+    cancelBooking,
+    deleteBooking,
+  } = useAdminStore()
+  const { searchParams, updateSearchParams, searchInput, handleSearchChange, clearFilters } = useUrlFilters('/bookings')
+
+  // The URL is the source of truth so filtered views can be bookmarked and shared
+  const currentPage = Number(searchParams.get('page')) || 1
+  const status = searchParams.get('status') || ''
+  const packageId = searchParams.get('packageId') || ''
+  const startDateFrom = searchParams.get('startDateFrom') || ''
+  const startDateTo = searchParams.get('startDateTo') || ''
+  const createdFrom = searchParams.get('createdFrom') || ''
+  const createdTo = searchParams.get('createdTo') || ''
+  const query = searchParams.get('query') || ''
+  const hasFilters = !!(status || packageId || startDateFrom || startDateTo || createdFrom || createdTo || query)
+
+  const [exporting, setExporting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkUpdating, setBulkUpdating] = useState(false)
+  const [bulkSummary, setBulkSummary] = useState<BulkSummary | null>(null)
+  const selectedBookings = bookings.filter((booking) => selectedIds.includes(booking.id))
+  const allSelected = bookings.length > 0 && selectedBookings.length === bookings.length
 
   useEffect(() => {
     if (!checkAuthStatus()) {
       window.location.href = '/admin-login'
       return
     }
-    fetchBookings()
-  }, [])
+    fetchBookings({
+      page: currentPage,
+      limit: PAGE_SIZE,
+      status,
+      packageId,
+      startDateFrom,
+      startDateTo,
+      createdFrom,
+      createdTo,
+      query,
+    })
+  }, [checkAuthStatus, fetchBookings, currentPage, status, packageId, startDateFrom, startDateTo, createdFrom, createdTo, query])
+
+  useEffect(() => {
+    fetchAllPackages()
+  }, [fetchAllPackages])
+
+  // Selection only covers the rows on screen, so start over when they change
+  useEffect(() => {
+    setSelectedIds([])
+  }, [bookingsQuery])
+
+  const refreshBookings = () => {
+    fetchBookings(bookingsQuery)
+  }
 
-  const fetchBookings = async () => {
+  // Exports every booking matching the filters, not just the current page
+  const handleExport = async (format: BookingExportFormat) => {
+    setExporting(true)
     try {
-      setLoading(true)
-      const token = localStorage.getItem('adminToken')
-      const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3006'
-
-      const response = await fetch(`${baseUrl}/bookings`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      })
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          logout()
-          window.location.href = '/admin-login'
-          return
-        }
-        throw new Error('Failed to fetch bookings')
+      const matching = await fetchAllBookings(bookingsQuery)
+      if (matching.length === 0) {
+        alert('No bookings match the current filters')
+        return
       }
-
-      const data = await response.json()
-      setBookings(data)
+      await exportBookings(matching, format)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
+      console.error('Error exporting bookings:', err)
+      alert('Failed to export bookings')
     } finally {
-      setLoading(false)
+      setExporting(false)
     }
   }
 
-  const updateBookingStatus = async (bookingId: string, status: string) => {
+  const handleExportSelected = async (format: BookingExportFormat) => {
     try {
-      const token = localStorage.getItem('adminToken')
-      const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3006'
-
-      // Map status to correct endpoint
-      let endpoint: string
-      switch (status) {
-        case 'CONFIRMED':
-          endpoint = `${baseUrl}/bookings/${bookingId}/confirm`
-          break
-        case 'COMPLETED':
-          endpoint = `${baseUrl}/bookings/${bookingId}/complete`
-          break
-        case 'CANCELLED':
-          endpoint = `${baseUrl}/bookings/${bookingId}/cancel`
-          break
-        default:
-          throw new Error('Invalid status')
-      }
+      await exportBookings(selectedBookings, format)
+    } catch (err) {
+      console.error('Error exporting bookings:', err)
+      alert('Failed to export bookings')
+    }
+  }
+
+  const toggleSelected = (bookingId: string) => {
+    setSelectedIds(selectedIds.includes(bookingId)
+      ? selectedIds.filter((id) => id !== bookingId)
+      : [...selectedIds, bookingId])
+  }
 
-      const response = await fetch(endpoint, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      })
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? [] : bookings.map((booking) => booking.id))
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to update booking status')
+  // Each booking is updated in place by the store, so nothing is refetched afterwards
+  const runBulkAction = async (action: string, update: (booking: Booking) => Promise<void>) => {
+    setBulkUpdating(true)
+    const results = await Promise.allSettled(selectedBookings.map(update))
+    const summary: BulkSummary = { action, succeeded: [], failed: [] }
+    results.forEach((result, i) => {
+      const { id } = selectedBookings[i]
+      if (result.status === 'fulfilled') {
+        summary.succeeded.push(id)
+      } else {
+        summary.failed.push({
+          id,
+          reason: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+        })
       }
+    })
+    setBulkSummary(summary)
+    setSelectedIds(summary.failed.map((failure) => failure.id))
+    setBulkUpdating(false)
+  }
 
-      // Refresh bookings after update
-      fetchBookings()
-    } catch (err) {
-      alert('Failed to update booking status')
+  const handleBulkConfirm = () => {
+    if (!confirm(`Confirm ${selectedBookings.length} selected booking(s)?`)) {
+      return
     }
+    runBulkAction('confirmed', (booking) => confirmBooking(booking.id))
   }
 
-  const deleteBooking = async (bookingId: string) => {
+  const handleBulkCancel = () => {
+    const reason = promptCancellationReason(
+      `Why are these ${selectedBookings.length} booking(s) being cancelled? The reason is stored on each one.`
+    )
+    if (!reason) {
+      return
+    }
+    runBulkAction('cancelled', (booking) => cancelBooking(booking.id, reason))
+  }
+
+  const handleDelete = async (bookingId: string) => {
     if (!confirm('Are you sure you want to delete this booking?')) {
       return
     }
 
     try {
-      const token = localStorage.getItem('adminToken')
-      const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3006'
-
-      const response = await fetch(`${baseUrl}/bookings/${bookingId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to delete booking')
-      }
-
-      // Refresh bookings after deletion
-      fetchBookings()
+      await deleteBooking(bookingId)
     } catch (err) {
       alert('Failed to delete booking')
     }
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'CONFIRMED':
-        return 'bg-green-100 text-green-800'
-      case 'COMPLETED':
-        return 'bg-blue-100 text-blue-800'
-      case 'CANCELLED':
-        return 'bg-red-100 text-red-800'
-      default:
-        return 'bg-yellow-100 text-yellow-800'
-    }
-  }
-
-  const filteredBookings = selectedStatus === 'all'
-    ? bookings
-    : bookings.filter(booking => booking.status === selectedStatus)
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Loading bookings...</p>
-        </div>
-      </div>
-    )
-  }
-
-  if (error) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <p className="text-red-600 mb-4">{error}</p>
-          <button
-            onClick={fetchBookings}
-            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
-          >
-            Try Again
-          </button>
-        </div>
-      </div>
-    )
-  }
-
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="bg-white shadow">
@@ -209,26 +203,96 @@ export default function BookingsPage() {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Filter Controls */}
-        <div className="bg-white rounded-lg shadow mb-6 p-6">
+        <div className="bg-white rounded-lg shadow mb-6 p-6 space-y-4">
           <div className="flex flex-wrap gap-4 items-center">
-            <label className="font-medium text-gray-700">Filter by Status:</label>
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              className={`${inputClassName} flex-1 min-w-[16rem]`}
+              placeholder="Search by contact name, email or phone"
+            />
             <select
-              value={selectedStatus}
-              onChange={(e) => setSelectedStatus(e.target.value)}
-              className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={status}
+              onChange={(e) => updateSearchParams({ status: e.target.value })}
+              className={inputClassName}
             >
-              <option value="all">All Bookings</option>
+              <option value="">All statuses</option>
               <option value="PENDING">Pending</option>
               <option value="CONFIRMED">Confirmed</option>
               <option value="COMPLETED">Completed</option>
               <option value="CANCELLED">Cancelled</option>
             </select>
-            <button
-              onClick={fetchBookings}
-              className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+            <select
+              value={packageId}
+              onChange={(e) => updateSearchParams({ packageId: e.target.value })}
+              className={inputClassName}
             >
-              Refresh
-            </button>
+              <option value="">All packages</option>
+              {/* A bookmarked filter can point at a package that has since been deleted */}
+              {packageId && !allPackages.some((pkg) => pkg.id === packageId) && (
+                <option value={packageId}>{allPackagesLoading ? 'Loading packages...' : 'Unknown package'}</option>
+              )}
+              {allPackages.map((pkg) => (
+                <option key={pkg.id} value={pkg.id}>
+                  {pkg.title}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-4 items-center">
+            {DATE_FILTERS.map((filter) => (
+              <div key={filter.from} className="flex items-center gap-2 text-sm text-gray-700">
+                <span className="font-medium">{filter.label}</span>
+                <input
+                  type="date"
+                  value={searchParams.get(filter.from) || ''}
+                  max={searchParams.get(filter.to) || undefined}
+                  onChange={(e) => updateSearchParams({ [filter.from]: e.target.value })}
+                  className={inputClassName}
+                  aria-label={`${filter.label} from`}
+                />
+                <span>to</span>
+                <input
+                  type="date"
+                  value={searchParams.get(filter.to) || ''}
+                  min={searchParams.get(filter.from) || undefined}
+                  onChange={(e) => updateSearchParams({ [filter.to]: e.target.value })}
+                  className={inputClassName}
+                  aria-label={`${filter.label} to`}
+                />
+              </div>
+            ))}
+            {hasFilters && (
+              <button
+                onClick={clearFilters}
+                className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+              >
+                Clear filters
+              </button>
+            )}
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={exporting}
+                className="border border-gray-300 text-gray-700 px-4 py-2 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => handleExport('xlsx')}
+                disabled={exporting}
+                className="border border-gray-300 text-gray-700 px-4 py-2 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                Export Excel
+              </button>
+              <button
+                onClick={refreshBookings}
+                className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+              >
+                Refresh
+              </button>
+            </div>
           </div>
         </div>
 
@@ -236,19 +300,111 @@ export default function BookingsPage() {
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
             <h2 className="text-lg font-semibold text-gray-900">
-              {filteredBookings.length} Booking{filteredBookings.length !== 1 ? 's' : ''}
+              {bookingsPagination?.total ?? bookings.length} Booking{(bookingsPagination?.total ?? bookings.length) !== 1 ? 's' : ''}
             </h2>
           </div>
 
-          {filteredBookings.length === 0 ? (
+          {selectedBookings.length > 0 && (
+            <div className="px-6 py-3 bg-blue-50 border-b border-blue-100 flex flex-wrap items-center gap-4 text-sm">
+              <span className="font-medium text-blue-900">{selectedBookings.length} selected</span>
+              <button
+                onClick={handleBulkConfirm}
+                disabled={bulkUpdating}
+                className="text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+              >
+                Confirm
+              </button>
+              <button
+                onClick={handleBulkCancel}
+                disabled={bulkUpdating}
+                className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleExportSelected('csv')}
+                className="text-gray-700 hover:text-gray-900 font-medium"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => handleExportSelected('xlsx')}
+                className="text-gray-700 hover:text-gray-900 font-medium"
+              >
+                Export Excel
+              </button>
+              <button
+                onClick={() => setSelectedIds([])}
+                className="ml-auto text-gray-500 hover:text-gray-700"
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
+
+          {bulkSummary && (
+            <div className={`px-6 py-3 border-b text-sm ${bulkSummary.failed.length > 0
+              ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+              : 'bg-green-50 border-green-200 text-green-800'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <p>
+                  {bulkSummary.succeeded.length} booking(s) {bulkSummary.action}.
+                  {bulkSummary.failed.length > 0 && ` ${bulkSummary.failed.length} failed and are still selected:`}
+                </p>
+                <button
+                  onClick={() => setBulkSummary(null)}
+                  className="ml-4 text-xs font-medium hover:underline"
+                >
+                  Dismiss
+                </button>
+              </div>
+              {bulkSummary.failed.length > 0 && (
+                <ul className="mt-1 list-disc list-inside">
+                  {bulkSummary.failed.map((failure) => (
+                    <li key={failure.id}>
+                      <span className="font-mono text-xs">{failure.id}</span>: {failure.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-4 text-gray-600">Loading bookings...</p>
+            </div>
+          ) : error ? (
+            <div className="p-8 text-center">
+              <p className="text-red-600 mb-4">{error}</p>
+              <button
+                onClick={refreshBookings}
+                className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+              >
+                Try Again
+              </button>
+            </div>
+          ) : bookings.length === 0 ? (
             <div className="p-8 text-center text-gray-500">
-              No bookings found.
+              {hasFilters ? 'No bookings match the current filters.' : 'No bookings found.'}
             </div>
           ) : (
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="px-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={toggleAllSelected}
+                        className="h-4 w-4 rounded border-gray-300"
+                        aria-label="Select all bookings on this page"
+                      />
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Customer
                     </th>
@@ -273,8 +429,17 @@ export default function BookingsPage() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {filteredBookings.map((booking) => (
-                    <tr key={booking.id} className="hover:bg-gray-50">
+                  {bookings.map((booking) => (
+                    <tr key={booking.id} className={selectedIds.includes(booking.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(booking.id)}
+                          onChange={() => toggleSelected(booking.id)}
+                          className="h-4 w-4 rounded border-gray-300"
+                          aria-label={`Select booking ${booking.id}`}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div>
                           <div className="text-sm font-medium text-gray-900">
@@ -307,25 +472,32 @@ export default function BookingsPage() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         ${booking.totalPrice.toFixed(2)}
+                        <div className="text-xs font-normal text-gray-500">
+                          ${getPricePerPerson(booking.totalPrice, booking.guests).toFixed(2)} / person
+                        </div>
+                        {booking.appliedPricingRules && (
+                          <div className="text-xs font-normal text-gray-500">
+                            {booking.appliedPricingRules.length > 0
+                              ? booking.appliedPricingRules.join(', ')
+                              : 'Base price'}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(booking.status)}`}>
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getBookingStatusColor(booking.status)}`}>
                           {booking.status}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
-                        <select
-                          value={booking.status}
-                          onChange={(e) => updateBookingStatus(booking.id, e.target.value)}
-                          className="border border-gray-300 rounded px-2 py-1 text-xs"
+                        <Link
+                          href={`/bookings/${booking.id}`}
+                          className="text-blue-600 hover:text-blue-900 text-xs"
                         >
-                          <option value="PENDING">Pending</option>
-                          <option value="CONFIRMED">Confirmed</option>
-                          <option value="COMPLETED">Completed</option>
-                          <option value="CANCELLED">Cancelled</option>
-                        </select>
+                          View
+                        </Link>
+                        <BookingStatusActions booking={booking} />
                         <button
-                          onClick={() => deleteBooking(booking.id)}
+                          onClick={() => handleDelete(booking.id)}
                           className="text-red-600 hover:text-red-900 text-xs"
                         >
                           Delete
@@ -339,8 +511,43 @@ export default function BookingsPage() {
           )}
         </div>
 
+        {/* Pagination */}
+        {bookingsPagination && bookingsPagination.pages > 1 && (
+          <div className="flex justify-center items-center gap-2 mt-8">
+            <button
+              onClick={() => updateSearchParams({ page: Math.max(1, currentPage - 1) })}
+              disabled={currentPage === 1}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Previous
+            </button>
+
+            <span className="text-sm text-gray-600 mx-4">
+              Page {bookingsPagination.page} of {bookingsPagination.pages}
+              ({bookingsPagination.total} total bookings)
+            </span>
+
+            <button
+              onClick={() => updateSearchParams({ page: Math.min(bookingsPagination.pages, currentPage + 1) })}
+              disabled={currentPage === bookingsPagination.pages}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+
         {/* Booking Details Modal could be added here */}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+export default function BookingsPage() {
+  // useSearchParams needs a Suspense boundary for the static build
+  return (
+    <Suspense>
+      <BookingsPageContent />
+    </Suspense>
+  )
+}
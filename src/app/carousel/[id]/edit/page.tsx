@@ -1,24 +1,23 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { useAdminStore } from '@/store/adminStore';
-
-interface CarouselForm {
-  title: string;
-  description: string;
-  imageUrl: string;
-  actionType: 'INTERNAL' | 'EXTERNAL';
-  actionValue: string;
-  isActive: boolean;
-  sortOrder: number;
-}
+import { useAdminStore, CarouselItem } from '@/store/adminStore';
+import { ALLOWED_IMAGE_TYPES, uploadImage } from '@/lib/imageUpload';
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from '@/lib/carouselSchedule';
+import { clearFormDraft, confirmLeaveForm, formDraftKey, useFormDraft } from '@/lib/formDrafts';
+import PackagePicker from '@/components/PackagePicker';
+import MediaLibraryPicker from '@/components/MediaLibraryPicker';
+import DraftRestoreBanner from '@/components/DraftRestoreBanner';
+
+type CarouselForm = Omit<CarouselItem, 'id' | 'createdAt' | 'updatedAt'>;
 
 interface FormErrors {
   title?: string;
   imageUrl?: string;
   actionValue?: string;
   sortOrder?: string;
+  activeUntil?: string;
 }
 
 const initialForm: CarouselForm = {
@@ -29,47 +28,51 @@ const initialForm: CarouselForm = {
   actionValue: '',
   isActive: true,
   sortOrder: 0,
+  activeFrom: null,
+  activeUntil: null,
 };
 
 export default function EditCarouselPage() {
-  const { user, checkAuthStatus, accessToken } = useAdminStore();
+  const {
+    user,
+    checkAuthStatus,
+    carouselItems,
+    fetchCarouselItemById,
+    updateCarouselItem,
+    allPackages: packages,
+    allPackagesLoading: packagesLoading,
+    allPackagesError: packagesError,
+    fetchAllPackages
+  } = useAdminStore();
   const router = useRouter();
   const params = useParams();
   const carouselId = params.id as string;
+  const draftKey = formDraftKey('carousel', carouselId);
 
   const [form, setForm] = useState<CarouselForm>(initialForm);
   const [loading, setLoading] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [fetchingItem, setFetchingItem] = useState(true);
   const [errors, setErrors] = useState<FormErrors>({});
+  const [loadedForm, setLoadedForm] = useState<CarouselForm>(initialForm);
 
-  useEffect(() => {
-    if (!checkAuthStatus()) {
-      router.push('/admin-login');
-      return;
-    }
+  const dirty = JSON.stringify(form) !== JSON.stringify(loadedForm);
+  const { draft, restoreDraft, discardDraft } = useFormDraft(draftKey, form, {
+    dirty,
+    enabled: !fetchingItem,
+  });
 
-    loadCarouselItem();
-  }, [checkAuthStatus, router, carouselId]);
-
-  const loadCarouselItem = async () => {
+  const loadCarouselItem = useCallback(async () => {
     try {
       setFetchingItem(true);
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/carousel/${carouselId}`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch carousel item');
-      }
-
-      const data = await response.json();
-      const item = data.data;
+      // First try to find in existing carousel items
+      const item =
+        carouselItems.find((i) => i.id === carouselId) ||
+        (await fetchCarouselItemById(carouselId));
 
       if (item) {
-        setForm({
+        const itemForm: CarouselForm = {
           title: item.title,
           description: item.description || '',
           imageUrl: item.imageUrl,
@@ -77,7 +80,11 @@ export default function EditCarouselPage() {
           actionValue: item.actionValue,
           isActive: item.isActive,
           sortOrder: item.sortOrder,
-        });
+          activeFrom: item.activeFrom || null,
+          activeUntil: item.activeUntil || null,
+        };
+        setForm(itemForm);
+        setLoadedForm(itemForm);
       } else {
         alert('Carousel item not found');
         router.push('/carousel');
@@ -89,9 +96,26 @@ export default function EditCarouselPage() {
     } finally {
       setFetchingItem(false);
     }
+  }, [carouselItems, carouselId, fetchCarouselItemById, router]);
+
+  useEffect(() => {
+    if (!checkAuthStatus()) {
+      router.push('/admin-login');
+      return;
+    }
+
+    loadCarouselItem();
+    fetchAllPackages();
+  }, [checkAuthStatus, router, loadCarouselItem, fetchAllPackages]);
+
+  const handleRestoreDraft = () => {
+    const draftValues = restoreDraft();
+    if (draftValues) {
+      setForm(draftValues);
+    }
   };
 
-  const updateForm = (field: keyof CarouselForm, value: string | number | boolean) => {
+  const updateForm = (field: keyof CarouselForm, value: string | number | boolean | null) => {
     setForm(prev => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
     if (field in errors && errors[field as keyof FormErrors]) {
@@ -99,53 +123,38 @@ export default function EditCarouselPage() {
     }
   };
 
-  const uploadImage = async (file: File): Promise<string> => {
-    const formData = new FormData();
-    formData.append('image', file);
-
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/upload/image`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
-
-      const data = await response.json();
-      return `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}${data.data.url}`;
-    } catch (error) {
-      console.error('Error uploading image:', error);
-      throw error;
-    }
-  };
-
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
       setUploadingImage(true);
-      const imageUrl = await uploadImage(file);
-      updateForm('imageUrl', imageUrl);
+      setUploadProgress(0);
+      const image = await uploadImage(file, { onProgress: setUploadProgress });
+      updateForm('imageUrl', image.url);
     } catch (error) {
-      alert('Failed to upload image');
+      alert(error instanceof Error ? error.message : 'Failed to upload image');
     } finally {
       setUploadingImage(false);
     }
   };
 
+  // Leave the target to the API until the whole package list has loaded
+  const canCheckTarget = !packagesLoading && !packagesError && packages.length > 0;
+
   const validateForm = () => {
     const newErrors: FormErrors = {};
 
     if (!form.title.trim()) newErrors.title = 'Title is required';
     if (!form.imageUrl.trim()) newErrors.imageUrl = 'Image is required';
     if (!form.actionValue.trim()) newErrors.actionValue = 'Action value is required';
+    else if (form.actionType === 'INTERNAL' && canCheckTarget && !packages.some((pkg) => pkg.id === form.actionValue)) {
+      newErrors.actionValue = 'Select an existing package';
+    }
     if (form.sortOrder < 0) newErrors.sortOrder = 'Sort order must be 0 or greater';
+    if (form.activeFrom && form.activeUntil && new Date(form.activeUntil) <= new Date(form.activeFrom)) {
+      newErrors.activeUntil = 'End date must be after the start date';
+    }
 
     // Validate URL for external actions
     if (form.actionType === 'EXTERNAL') {
@@ -169,18 +178,8 @@ export default function EditCarouselPage() {
 
     setLoading(true);
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/carousel/${carouselId}`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(form),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update carousel item');
-      }
+      await updateCarouselItem(carouselId, form);
+      clearFormDraft(draftKey);
 
       alert('Carousel item updated successfully!');
       router.push('/carousel');
@@ -223,6 +222,10 @@ export default function EditCarouselPage() {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-8">
+          {draft && (
+            <DraftRestoreBanner savedAt={draft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
+          )}
+
           <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
             <div className="md:grid md:grid-cols-3 md:gap-6">
               <div className="md:col-span-1">
@@ -279,7 +282,7 @@ export default function EditCarouselPage() {
                       />
                       <input
                         type="file"
-                        accept="image/*"
+                        accept={ALLOWED_IMAGE_TYPES.join(',')}
                         onChange={handleImageUpload}
                         disabled={uploadingImage}
                         className="hidden"
@@ -290,9 +293,15 @@ export default function EditCarouselPage() {
                         className={`inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 cursor-pointer ${uploadingImage ? 'opacity-50 cursor-not-allowed' : ''
                           }`}
                       >
-                        {uploadingImage ? 'Uploading...' : 'Upload'}
+                        {uploadingImage ? `Uploading ${uploadProgress}%` : 'Upload'}
                       </label>
                     </div>
+                    <div className="mt-2">
+                      <MediaLibraryPicker
+                        onSelect={(url) => updateForm('imageUrl', url)}
+                        selectedUrls={form.imageUrl ? [form.imageUrl] : []}
+                      />
+                    </div>
                     {errors.imageUrl && <p className="mt-2 text-sm text-red-600">{errors.imageUrl}</p>}
                     {form.imageUrl && (
                       <div className="mt-2">
@@ -315,31 +324,46 @@ export default function EditCarouselPage() {
                     <select
                       id="actionType"
                       value={form.actionType}
-                      onChange={(e) => updateForm('actionType', e.target.value as 'INTERNAL' | 'EXTERNAL')}
+                      onChange={(e) => {
+                        updateForm('actionType', e.target.value as CarouselForm['actionType']);
+                        // A package ID is never a valid URL and vice versa
+                        updateForm('actionValue', '');
+                      }}
                       className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                     >
-                      <option value="INTERNAL">Internal (App Screen)</option>
+                      <option value="INTERNAL">Internal (Package)</option>
                       <option value="EXTERNAL">External (Website URL)</option>
                     </select>
                   </div>
 
                   <div className="col-span-6 sm:col-span-3">
                     <label htmlFor="actionValue" className="block text-sm font-medium text-gray-700">
-                      Action Value *
+                      {form.actionType === 'INTERNAL' ? 'Target Package *' : 'Action Value *'}
                     </label>
-                    <input
-                      type="text"
-                      id="actionValue"
-                      value={form.actionValue}
-                      onChange={(e) => updateForm('actionValue', e.target.value)}
-                      className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.actionValue ? 'border-red-300' : ''
-                        }`}
-                      placeholder={form.actionType === 'INTERNAL' ? 'e.g., Tours' : 'e.g., https://example.com'}
-                    />
+                    {form.actionType === 'INTERNAL' ? (
+                      <PackagePicker
+                        id="actionValue"
+                        value={form.actionValue}
+                        onChange={(packageId) => updateForm('actionValue', packageId)}
+                        packages={packages}
+                        loading={packagesLoading}
+                        hasError={!!errors.actionValue}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        id="actionValue"
+                        value={form.actionValue}
+                        onChange={(e) => updateForm('actionValue', e.target.value)}
+                        className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.actionValue ? 'border-red-300' : ''
+                          }`}
+                        placeholder="e.g., https://example.com"
+                      />
+                    )}
                     {errors.actionValue && <p className="mt-2 text-sm text-red-600">{errors.actionValue}</p>}
                     <p className="mt-1 text-sm text-gray-500">
                       {form.actionType === 'INTERNAL'
-                        ? 'Screen name to navigate to (e.g., Tours, Profile)'
+                        ? 'Package to open in the app'
                         : 'Full URL to open in browser'
                       }
                     </p>
@@ -376,6 +400,36 @@ export default function EditCarouselPage() {
                       </label>
                     </div>
                   </div>
+
+                  <div className="col-span-6 sm:col-span-3">
+                    <label htmlFor="activeFrom" className="block text-sm font-medium text-gray-700">
+                      Show From
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="activeFrom"
+                      value={toDateTimeLocalValue(form.activeFrom)}
+                      onChange={(e) => updateForm('activeFrom', fromDateTimeLocalValue(e.target.value))}
+                      className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                    />
+                    <p className="mt-1 text-sm text-gray-500">Leave empty to show immediately</p>
+                  </div>
+
+                  <div className="col-span-6 sm:col-span-3">
+                    <label htmlFor="activeUntil" className="block text-sm font-medium text-gray-700">
+                      Show Until
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="activeUntil"
+                      value={toDateTimeLocalValue(form.activeUntil)}
+                      onChange={(e) => updateForm('activeUntil', fromDateTimeLocalValue(e.target.value))}
+                      className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.activeUntil ? 'border-red-300' : ''
+                        }`}
+                    />
+                    {errors.activeUntil && <p className="mt-2 text-sm text-red-600">{errors.activeUntil}</p>}
+                    <p className="mt-1 text-sm text-gray-500">Leave empty to show indefinitely</p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -384,7 +438,7 @@ export default function EditCarouselPage() {
           <div className="flex justify-end space-x-3">
             <button
               type="button"
-              onClick={() => router.push('/carousel')}
+              onClick={() => confirmLeaveForm(draftKey, dirty) && router.push('/carousel')}
               className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
             >
               Cancel
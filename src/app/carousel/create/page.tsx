@@ -2,23 +2,24 @@
 
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { useAdminStore } from '@/store/adminStore';
-
-interface CarouselForm {
-  title: string;
-  description: string;
-  imageUrl: string;
-  actionType: 'INTERNAL' | 'EXTERNAL';
-  actionValue: string;
-  isActive: boolean;
-  sortOrder: number;
-}
+import { useAdminStore, CarouselItem } from '@/store/adminStore';
+import { ALLOWED_IMAGE_TYPES, uploadImage } from '@/lib/imageUpload';
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from '@/lib/carouselSchedule';
+import { clearFormDraft, confirmLeaveForm, formDraftKey, useFormDraft } from '@/lib/formDrafts';
+import PackagePicker from '@/components/PackagePicker';
+import MediaLibraryPicker from '@/components/MediaLibraryPicker';
+import DraftRestoreBanner from '@/components/DraftRestoreBanner';
+
+type CarouselForm = Omit<CarouselItem, 'id' | 'createdAt' | 'updatedAt'>;
+
+const DRAFT_KEY = formDraftKey('carousel');
 
 interface FormErrors {
   title?: string;
   imageUrl?: string;
   actionValue?: string;
   sortOrder?: string;
+  activeUntil?: string;
 }
 
 const initialForm: CarouselForm = {
@@ -29,23 +30,46 @@ const initialForm: CarouselForm = {
   actionValue: '',
   isActive: true,
   sortOrder: 0,
+  activeFrom: null,
+  activeUntil: null,
 };
 
 export default function CreateCarouselPage() {
-  const { user, checkAuthStatus, accessToken } = useAdminStore();
+  const {
+    user,
+    checkAuthStatus,
+    createCarouselItem,
+    allPackages: packages,
+    allPackagesLoading: packagesLoading,
+    allPackagesError: packagesError,
+    fetchAllPackages
+  } = useAdminStore();
   const router = useRouter();
   const [form, setForm] = useState<CarouselForm>(initialForm);
   const [loading, setLoading] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [errors, setErrors] = useState<FormErrors>({});
 
+  const dirty = JSON.stringify(form) !== JSON.stringify(initialForm);
+  const { draft, restoreDraft, discardDraft } = useFormDraft(DRAFT_KEY, form, { dirty });
+
   useEffect(() => {
     if (!checkAuthStatus()) {
       router.push('/admin-login');
+      return;
+    }
+    fetchAllPackages();
+  }, [checkAuthStatus, router, fetchAllPackages]);
+
+  const handleRestoreDraft = () => {
+    const draftValues = restoreDraft();
+    if (draftValues) {
+      setForm(draftValues);
     }
-  }, [checkAuthStatus, router]);
+  };
 
-  const updateForm = (field: keyof CarouselForm, value: string | number | boolean) => {
+  const updateForm = (field: keyof CarouselForm, value: string | number | boolean | null) => {
     setForm(prev => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
     if (field in errors && errors[field as keyof FormErrors]) {
@@ -53,53 +77,38 @@ export default function CreateCarouselPage() {
     }
   };
 
-  const uploadImage = async (file: File): Promise<string> => {
-    const formData = new FormData();
-    formData.append('image', file);
-
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/upload/image`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
-
-      const data = await response.json();
-      return `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}${data.data.url}`;
-    } catch (error) {
-      console.error('Error uploading image:', error);
-      throw error;
-    }
-  };
-
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
       setUploadingImage(true);
-      const imageUrl = await uploadImage(file);
-      updateForm('imageUrl', imageUrl);
+      setUploadProgress(0);
+      const image = await uploadImage(file, { onProgress: setUploadProgress });
+      updateForm('imageUrl', image.url);
     } catch (error) {
-      alert('Failed to upload image');
+      alert(error instanceof Error ? error.message : 'Failed to upload image');
     } finally {
       setUploadingImage(false);
     }
   };
 
+  // Leave the target to the API until the whole package list has loaded
+  const canCheckTarget = !packagesLoading && !packagesError && packages.length > 0;
+
   const validateForm = () => {
     const newErrors: FormErrors = {};
 
     if (!form.title.trim()) newErrors.title = 'Title is required';
     if (!form.imageUrl.trim()) newErrors.imageUrl = 'Image is required';
     if (!form.actionValue.trim()) newErrors.actionValue = 'Action value is required';
+    else if (form.actionType === 'INTERNAL' && canCheckTarget && !packages.some((pkg) => pkg.id === form.actionValue)) {
+      newErrors.actionValue = 'Select an existing package';
+    }
     if (form.sortOrder < 0) newErrors.sortOrder = 'Sort order must be 0 or greater';
+    if (form.activeFrom && form.activeUntil && new Date(form.activeUntil) <= new Date(form.activeFrom)) {
+      newErrors.activeUntil = 'End date must be after the start date';
+    }
 
     // Validate URL for external actions
     if (form.actionType === 'EXTERNAL') {
@@ -123,18 +132,8 @@ export default function CreateCarouselPage() {
 
     setLoading(true);
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/carousel`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(form),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to create carousel item');
-      }
+      await createCarouselItem(form);
+      clearFormDraft(DRAFT_KEY);
 
       alert('Carousel item created successfully!');
       router.push('/carousel');
@@ -166,6 +165,10 @@ export default function CreateCarouselPage() {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-8">
+          {draft && (
+            <DraftRestoreBanner savedAt={draft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
+          )}
+
           <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
             <div className="md:grid md:grid-cols-3 md:gap-6">
               <div className="md:col-span-1">
@@ -222,7 +225,7 @@ export default function CreateCarouselPage() {
                       />
                       <input
                         type="file"
-                        accept="image/*"
+                        accept={ALLOWED_IMAGE_TYPES.join(',')}
                         onChange={handleImageUpload}
                         disabled={uploadingImage}
                         className="hidden"
@@ -233,9 +236,15 @@ export default function CreateCarouselPage() {
                         className={`inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 cursor-pointer ${uploadingImage ? 'opacity-50 cursor-not-allowed' : ''
                           }`}
                       >
-                        {uploadingImage ? 'Uploading...' : 'Upload'}
+                        {uploadingImage ? `Uploading ${uploadProgress}%` : 'Upload'}
                       </label>
                     </div>
+                    <div className="mt-2">
+                      <MediaLibraryPicker
+                        onSelect={(url) => updateForm('imageUrl', url)}
+                        selectedUrls={form.imageUrl ? [form.imageUrl] : []}
+                      />
+                    </div>
                     {errors.imageUrl && <p className="mt-2 text-sm text-red-600">{errors.imageUrl}</p>}
                     {form.imageUrl && (
                       <div className="mt-2">
@@ -258,31 +267,46 @@ export default function CreateCarouselPage() {
                     <select
                       id="actionType"
                       value={form.actionType}
-                      onChange={(e) => updateForm('actionType', e.target.value as 'INTERNAL' | 'EXTERNAL')}
+                      onChange={(e) => {
+                        updateForm('actionType', e.target.value as CarouselForm['actionType']);
+                        // A package ID is never a valid URL and vice versa
+                        updateForm('actionValue', '');
+                      }}
                       className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                     >
-                      <option value="INTERNAL">Internal (App Screen)</option>
+                      <option value="INTERNAL">Internal (Package)</option>
                       <option value="EXTERNAL">External (Website URL)</option>
                     </select>
                   </div>
 
                   <div className="col-span-6 sm:col-span-3">
                     <label htmlFor="actionValue" className="block text-sm font-medium text-gray-700">
-                      Action Value *
+                      {form.actionType === 'INTERNAL' ? 'Target Package *' : 'Action Value *'}
                     </label>
-                    <input
-                      type="text"
-                      id="actionValue"
-                      value={form.actionValue}
-                      onChange={(e) => updateForm('actionValue', e.target.value)}
-                      className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.actionValue ? 'border-red-300' : ''
-                        }`}
-                      placeholder={form.actionType === 'INTERNAL' ? 'e.g., Tours' : 'e.g., https://example.com'}
-                    />
+                    {form.actionType === 'INTERNAL' ? (
+                      <PackagePicker
+                        id="actionValue"
+                        value={form.actionValue}
+                        onChange={(packageId) => updateForm('actionValue', packageId)}
+                        packages={packages}
+                        loading={packagesLoading}
+                        hasError={!!errors.actionValue}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        id="actionValue"
+                        value={form.actionValue}
+                        onChange={(e) => updateForm('actionValue', e.target.value)}
+                        className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.actionValue ? 'border-red-300' : ''
+                          }`}
+                        placeholder="e.g., https://example.com"
+                      />
+                    )}
                     {errors.actionValue && <p className="mt-2 text-sm text-red-600">{errors.actionValue}</p>}
                     <p className="mt-1 text-sm text-gray-500">
                       {form.actionType === 'INTERNAL'
-                        ? 'Screen name to navigate to (e.g., Tours, Profile)'
+                        ? 'Package to open in the app'
                         : 'Full URL to open in browser'
                       }
                     </p>
@@ -319,6 +343,36 @@ export default function CreateCarouselPage() {
                       </label>
                     </div>
                   </div>
+
+                  <div className="col-span-6 sm:col-span-3">
+                    <label htmlFor="activeFrom" className="block text-sm font-medium text-gray-700">
+                      Show From
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="activeFrom"
+                      value={toDateTimeLocalValue(form.activeFrom)}
+                      onChange={(e) => updateForm('activeFrom', fromDateTimeLocalValue(e.target.value))}
+                      className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                    />
+                    <p className="mt-1 text-sm text-gray-500">Leave empty to show immediately</p>
+                  </div>
+
+                  <div className="col-span-6 sm:col-span-3">
+                    <label htmlFor="activeUntil" className="block text-sm font-medium text-gray-700">
+                      Show Until
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="activeUntil"
+                      value={toDateTimeLocalValue(form.activeUntil)}
+                      onChange={(e) => updateForm('activeUntil', fromDateTimeLocalValue(e.target.value))}
+                      className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.activeUntil ? 'border-red-300' : ''
+                        }`}
+                    />
+                    {errors.activeUntil && <p className="mt-2 text-sm text-red-600">{errors.activeUntil}</p>}
+                    <p className="mt-1 text-sm text-gray-500">Leave empty to show indefinitely</p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -327,7 +381,7 @@ export default function CreateCarouselPage() {
           <div className="flex justify-end space-x-3">
             <button
               type="button"
-              onClick={() => router.push('/carousel')}
+              onClick={() => confirmLeaveForm(DRAFT_KEY, dirty) && router.push('/carousel')}
               className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
             >
               Cancel
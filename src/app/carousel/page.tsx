@@ -4,31 +4,65 @@ import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { useAdminStore } from '@/store/adminStore';
+import CarouselPreview from '@/components/CarouselPreview';
+import {
+  CarouselScheduleStatus,
+  getCarouselScheduleStatus,
+  hasCarouselSchedule
+} from '@/lib/carouselSchedule';
 
-interface CarouselItem {
-  id: string;
-  title: string;
-  description: string;
-  imageUrl: string;
-  actionType: 'INTERNAL' | 'EXTERNAL';
-  actionValue: string;
-  isActive: boolean;
-  sortOrder: number;
-  createdAt: string;
-  updatedAt: string;
-}
+const scheduleBadgeStyles: Record<CarouselScheduleStatus, string> = {
+  scheduled: 'bg-yellow-100 text-yellow-800',
+  live: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-200 text-gray-600',
+};
 
 export default function CarouselManagementPage() {
   const {
     user,
     checkAuthStatus,
-    accessToken
+    carouselItems,
+    carouselLoading: loading,
+    carouselError: error,
+    fetchCarouselItems,
+    deleteCarouselItem,
+    toggleCarouselItemActive,
+    reorderCarouselItems,
+    allPackages: packages,
+    allPackagesLoading: packagesLoading,
+    allPackagesError: packagesError,
+    fetchAllPackages
   } = useAdminStore();
   const router = useRouter();
 
-  const [carouselItems, setCarouselItems] = useState<CarouselItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [draftOrder, setDraftOrder] = useState<string[] | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [savingOrder, setSavingOrder] = useState(false);
+  const [hideExpired, setHideExpired] = useState(false);
+
+  const now = new Date();
+  // The API does not promise any order, so list slides the way they are shown
+  const sortedItems = [...carouselItems].sort((a, b) => a.sortOrder - b.sortOrder);
+  const orderedItems = draftOrder
+    ? draftOrder
+      .map((id) => carouselItems.find((item) => item.id === id))
+      .filter((item): item is typeof carouselItems[number] => !!item)
+    : sortedItems;
+  // Hidden slides keep their place in orderedItems so dragging never drops them
+  const displayedItems = hideExpired
+    ? orderedItems.filter((item) => getCarouselScheduleStatus(item, now) !== 'expired')
+    : orderedItems;
+  // Only flag missing targets once there is a package list to check against
+  const canCheckTargets = !packagesLoading && !packagesError && packages.length > 0;
+  const hasMissingTarget = (item: typeof carouselItems[number]) =>
+    canCheckTargets &&
+    item.actionType === 'INTERNAL' &&
+    !packages.some((pkg) => pkg.id === item.actionValue);
+  const missingTargetCount = carouselItems.filter(hasMissingTarget).length;
+
+  // Follow an unsaved drag order so the preview shows what saving would produce
+  const previewItems = orderedItems
+    .filter((item) => item.isActive && getCarouselScheduleStatus(item, now) === 'live');
 
   useEffect(() => {
     if (!checkAuthStatus()) {
@@ -36,30 +70,9 @@ export default function CarouselManagementPage() {
       return;
     }
     fetchCarouselItems();
-  }, [checkAuthStatus, router]);
-
-  const fetchCarouselItems = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/carousel/admin`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch carousel items');
-      }
-
-      const data = await response.json();
-      setCarouselItems(data.data || []);
-    } catch (error) {
-      console.error('Error fetching carousel items:', error);
-      setError('Failed to fetch carousel items');
-    } finally {
-      setLoading(false);
-    }
-  };
+    // Packages are needed to resolve INTERNAL slide targets
+    fetchAllPackages();
+  }, [checkAuthStatus, router, fetchCarouselItems, fetchAllPackages]);
 
   const handleDelete = async (id: string, title: string) => {
     if (!confirm(`Are you sure you want to delete "${title}"?`)) {
@@ -67,19 +80,8 @@ export default function CarouselManagementPage() {
     }
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/carousel/${id}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete carousel item');
-      }
-
+      await deleteCarouselItem(id);
       alert('Carousel item deleted successfully');
-      fetchCarouselItems();
     } catch (error) {
       console.error('Error deleting carousel item:', error);
       alert('Failed to delete carousel item');
@@ -88,29 +90,44 @@ export default function CarouselManagementPage() {
 
   const handleToggleActive = async (id: string, currentStatus: boolean) => {
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3002'}/carousel/${id}`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          isActive: !currentStatus,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update carousel item');
-      }
-
+      await toggleCarouselItemActive(id);
       alert(`Carousel item ${!currentStatus ? 'activated' : 'deactivated'} successfully`);
-      fetchCarouselItems();
     } catch (error) {
       console.error('Error updating carousel item:', error);
       alert('Failed to update carousel item');
     }
   };
 
+  const handleDragOver = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    if (!draggedId || draggedId === targetId) {
+      return;
+    }
+
+    const order = orderedItems.map((item) => item.id);
+    const fromIndex = order.indexOf(draggedId);
+    const toIndex = order.indexOf(targetId);
+    order.splice(fromIndex, 1);
+    order.splice(toIndex, 0, draggedId);
+    setDraftOrder(order);
+  };
+
+  const handleSaveOrder = async () => {
+    if (!draftOrder) return;
+
+    const order = draftOrder;
+    setDraftOrder(null);
+    setSavingOrder(true);
+    try {
+      await reorderCarouselItems(order);
+    } catch (error) {
+      console.error('Error saving carousel order:', error);
+      alert('Failed to save the new order. The previous order has been restored.');
+    } finally {
+      setSavingOrder(false);
+    }
+  };
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -138,130 +155,207 @@ export default function CarouselManagementPage() {
           </button>
         </div>
 
-        {loading ? (
-          <div className="text-center py-12">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500 mx-auto"></div>
-            <p className="mt-4 text-gray-600">Loading carousel items...</p>
-          </div>
-        ) : error ? (
-          <div className="bg-red-50 border border-red-200 rounded-md p-4">
-            <p className="text-red-800">{error}</p>
-          </div>
-        ) : (
-          <div className="bg-white shadow overflow-hidden sm:rounded-md">
-            <div className="px-4 py-5 sm:p-6">
-              {carouselItems.length === 0 ? (
-                <div className="text-center py-12">
-                  <svg
-                    className="mx-auto h-12 w-12 text-gray-400"
-                    stroke="currentColor"
-                    fill="none"
-                    viewBox="0 0 48 48"
-                  >
-                    <path
-                      d="M34 40h10v-4a6 6 0 00-10.712-3.714M34 40H14m20 0v-4a9.971 9.971 0 00-.712-3.714M14 40H4v-4a6 6 0 0110.713-3.714M14 40v-4c0-1.313.253-2.566.713-3.714m0 0A9.971 9.971 0 0118 28c2.624.824 4.837 2.607 6 4.999M32 28c2.624-.824 4.837-2.607 6-4.999"
-                      strokeWidth={2}
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                    />
-                  </svg>
-                  <h3 className="mt-2 text-sm font-medium text-gray-900">No carousel items</h3>
-                  <p className="mt-1 text-sm text-gray-500">Get started by creating a new carousel item.</p>
-                  <div className="mt-6">
-                    <button
-                      onClick={() => router.push('/carousel/create')}
-                      className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                    >
-                      Add New Item
-                    </button>
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500 mx-auto"></div>
+                <p className="mt-4 text-gray-600">Loading carousel items...</p>
+              </div>
+            ) : error ? (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-red-800">{error}</p>
+              </div>
+            ) : (
+              <div className="bg-white shadow overflow-hidden sm:rounded-md">
+                {missingTargetCount > 0 && (
+                  <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-3 text-sm text-yellow-800">
+                    {missingTargetCount} carousel item{missingTargetCount !== 1 ? 's link' : ' links'} to a package that has been deleted.
                   </div>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {carouselItems.map((item) => (
-                    <div
-                      key={item.id}
-                      className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow"
-                    >
-                      <div className="flex items-start space-x-4">
-                        <div className="flex-shrink-0">
-                          <div className="w-24 h-16 relative">
-                            <Image
-                              src={item.imageUrl}
-                              alt={item.title}
-                              fill
-                              className="object-cover rounded-md"
-                              unoptimized={true}
-                              onError={(e) => {
-                                e.currentTarget.style.display = 'none';
-                              }}
+                )}
+                <div className="px-4 py-5 sm:p-6">
+                  {carouselItems.length === 0 ? (
+                    <div className="text-center py-12">
+                      <svg
+                        className="mx-auto h-12 w-12 text-gray-400"
+                        stroke="currentColor"
+                        fill="none"
+                        viewBox="0 0 48 48"
+                      >
+                        <path
+                          d="M34 40h10v-4a6 6 0 00-10.712-3.714M34 40H14m20 0v-4a9.971 9.971 0 00-.712-3.714M14 40H4v-4a6 6 0 0110.713-3.714M14 40v-4c0-1.313.253-2.566.713-3.714m0 0A9.971 9.971 0 0118 28c2.624.824 4.837 2.607 6 4.999M32 28c2.624-.824 4.837-2.607 6-4.999"
+                          strokeWidth={2}
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        />
+                      </svg>
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">No carousel items</h3>
+                      <p className="mt-1 text-sm text-gray-500">Get started by creating a new carousel item.</p>
+                      <div className="mt-6">
+                        <button
+                          onClick={() => router.push('/carousel/create')}
+                          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        >
+                          Add New Item
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-6">
+                          <p className="text-sm text-gray-500">
+                            {savingOrder ? 'Saving order...' : 'Drag items to change their order in the app.'}
+                          </p>
+                          <label className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={hideExpired}
+                              onChange={(e) => setHideExpired(e.target.checked)}
+                              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
                             />
-                          </div>
+                            <span className="ml-2">Hide expired</span>
+                          </label>
                         </div>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center justify-between">
-                            <h3 className="text-lg font-medium text-gray-900 truncate">
-                              {item.title}
-                            </h3>
-                            <div className="flex items-center space-x-2">
-                              <span
-                                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${item.isActive
-                                  ? 'bg-green-100 text-green-800'
-                                  : 'bg-red-100 text-red-800'
+                        {draftOrder && (
+                          <div className="flex items-center space-x-3">
+                            <button
+                              onClick={() => setDraftOrder(null)}
+                              className="text-gray-600 hover:text-gray-700 text-sm font-medium"
+                            >
+                              Reset
+                            </button>
+                            <button
+                              onClick={handleSaveOrder}
+                              className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium py-1.5 px-3 rounded-md"
+                            >
+                              Save Order
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                      {displayedItems.length === 0 && (
+                        <p className="text-center py-8 text-sm text-gray-500">All carousel items have expired.</p>
+                      )}
+                      {displayedItems.map((item) => (
+                        <div
+                          key={item.id}
+                          draggable={!savingOrder}
+                          onDragStart={() => setDraggedId(item.id)}
+                          onDragOver={(e) => handleDragOver(e, item.id)}
+                          onDragEnd={() => setDraggedId(null)}
+                          className={`border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow ${savingOrder ? '' : 'cursor-move'} ${draggedId === item.id ? 'opacity-50' : ''
+                            }`}
+                        >
+                          <div className="flex items-start space-x-4">
+                            <div className="flex-shrink-0 self-center text-gray-400 select-none" aria-hidden="true">
+                              ⠿
+                            </div>
+                            <div className="flex-shrink-0">
+                              <div className="w-24 h-16 relative">
+                                <Image
+                                  src={item.imageUrl}
+                                  alt={item.title}
+                                  fill
+                                  className="object-cover rounded-md"
+                                  unoptimized={true}
+                                  onError={(e) => {
+                                    e.currentTarget.style.display = 'none';
+                                  }}
+                                />
+                              </div>
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center justify-between">
+                                <h3 className="text-lg font-medium text-gray-900 truncate">
+                                  {item.title}
+                                </h3>
+                                <div className="flex items-center space-x-2">
+                                  <span
+                                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${item.isActive
+                                      ? 'bg-green-100 text-green-800'
+                                      : 'bg-red-100 text-red-800'
+                                      }`}
+                                  >
+                                    {item.isActive ? 'Active' : 'Inactive'}
+                                  </span>
+                                  {hasCarouselSchedule(item) && (
+                                    <span
+                                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${scheduleBadgeStyles[getCarouselScheduleStatus(item, now)]
+                                        }`}
+                                    >
+                                      {getCarouselScheduleStatus(item, now)}
+                                    </span>
+                                  )}
+                                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                                    Order: {item.sortOrder}
+                                  </span>
+                                </div>
+                              </div>
+                              {item.description && (
+                                <p className="mt-1 text-sm text-gray-600 line-clamp-2">
+                                  {item.description}
+                                </p>
+                              )}
+                              <div className="mt-2 flex items-center text-sm text-gray-500">
+                                <span className="flex items-center">
+                                  <span className={`mr-2 ${item.actionType === 'INTERNAL' ? 'text-blue-600' : 'text-green-600'}`}>
+                                    {item.actionType === 'INTERNAL' ? '🏠' : '🔗'}
+                                  </span>
+                                  {item.actionType}: {item.actionType === 'INTERNAL'
+                                    ? packages.find((pkg) => pkg.id === item.actionValue)?.title || item.actionValue
+                                    : item.actionValue}
+                                </span>
+                              </div>
+                              {hasMissingTarget(item) && (
+                                <p className="mt-1 text-sm text-red-600">
+                                  ⚠️ The target package no longer exists. Pick a new one or deactivate this item.
+                                </p>
+                              )}
+                              {hasCarouselSchedule(item) && (
+                                <p className="mt-1 text-xs text-gray-500">
+                                  {item.activeFrom && `From ${new Date(item.activeFrom).toLocaleString()}`}
+                                  {item.activeFrom && item.activeUntil && ' • '}
+                                  {item.activeUntil && `Until ${new Date(item.activeUntil).toLocaleString()}`}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex-shrink-0 flex flex-col space-y-2">
+                              <button
+                                onClick={() => router.push(`/carousel/${item.id}/edit`)}
+                                className="text-indigo-600 hover:text-indigo-700 text-sm font-medium"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleToggleActive(item.id, item.isActive)}
+                                className={`text-sm font-medium ${item.isActive
+                                  ? 'text-red-600 hover:text-red-700'
+                                  : 'text-green-600 hover:text-green-700'
                                   }`}
                               >
-                                {item.isActive ? 'Active' : 'Inactive'}
-                              </span>
-                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                                Order: {item.sortOrder}
-                              </span>
+                                {item.isActive ? 'Deactivate' : 'Activate'}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(item.id, item.title)}
+                                className="text-red-600 hover:text-red-700 text-sm font-medium"
+                              >
+                                Delete
+                              </button>
                             </div>
                           </div>
-                          {item.description && (
-                            <p className="mt-1 text-sm text-gray-600 line-clamp-2">
-                              {item.description}
-                            </p>
-                          )}
-                          <div className="mt-2 flex items-center text-sm text-gray-500">
-                            <span className="flex items-center">
-                              <span className={`mr-2 ${item.actionType === 'INTERNAL' ? 'text-blue-600' : 'text-green-600'}`}>
-                                {item.actionType === 'INTERNAL' ? '🏠' : '🔗'}
-                              </span>
-                              {item.actionType}: {item.actionValue}
-                            </span>
-                          </div>
-                        </div>
-                        <div className="flex-shrink-0 flex flex-col space-y-2">
-                          <button
-                            onClick={() => router.push(`/carousel/${item.id}/edit`)}
-                            className="text-indigo-600 hover:text-indigo-700 text-sm font-medium"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleToggleActive(item.id, item.isActive)}
-                            className={`text-sm font-medium ${item.isActive
-                              ? 'text-red-600 hover:text-red-700'
-                              : 'text-green-600 hover:text-green-700'
-                              }`}
-                          >
-                            {item.isActive ? 'Deactivate' : 'Activate'}
-                          </button>
-                          <button
-                            onClick={() => handleDelete(item.id, item.title)}
-                            className="text-red-600 hover:text-red-700 text-sm font-medium"
-                          >
-                            Delete
-                          </button>
                         </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
+                  )}
                 </div>
-              )}
-            </div>
+              </div>
+            )}
           </div>
-        )}
+          <div className="lg:col-span-1">
+            <CarouselPreview items={previewItems} packages={packages} />
+          </div>
+        </div>
       </div>
     </div>
   );
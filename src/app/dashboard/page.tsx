@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAdminStore } from '@/store/adminStore';
 
@@ -222,7 +223,7 @@ export default function DashboardPage() {
                 </a>
               </li>
               <li>
-                <a
+                <Link
                   href="/bookings"
                   className="block hover:bg-gray-50 px-4 py-4 sm:px-6"
                 >
@@ -250,7 +251,7 @@ export default function DashboardPage() {
                       </svg>
                     </div>
                   </div>
-                </a>
+                </Link>
               </li>
               <li>
                 <a
@@ -283,6 +284,37 @@ export default function DashboardPage() {
                   </div>
                 </a>
               </li>
+              <li>
+                <a
+                  href="/media"
+                  className="block hover:bg-gray-50 px-4 py-4 sm:px-6"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <div className="flex-shrink-0 h-10 w-10">
+                        <div className="h-10 w-10 rounded-full bg-indigo-100 flex items-center justify-center">
+                          <svg className="h-5 w-5 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                          </svg>
+                        </div>
+                      </div>
+                      <div className="ml-4">
+                        <div className="text-sm font-medium text-gray-900">
+                          Media Library
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          Browse uploaded images and see where they are used
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex-shrink-0">
+                      <svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                      </svg>
+                    </div>
+                  </div>
+                </a>
+              </li>
             </ul>
           </div>
         </div>
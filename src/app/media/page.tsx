@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { useAdminStore } from '@/store/adminStore';
+import { MediaUsageType, buildMediaUsageIndex } from '@/lib/mediaUsage';
+
+const usageBadgeStyles: Record<MediaUsageType, string> = {
+  'package cover': 'bg-indigo-100 text-indigo-800',
+  gallery: 'bg-blue-100 text-blue-800',
+  carousel: 'bg-green-100 text-green-800',
+  review: 'bg-yellow-100 text-yellow-800',
+};
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+export default function MediaLibraryPage() {
+  const {
+    user,
+    checkAuthStatus,
+    mediaAssets,
+    mediaLoading: loading,
+    mediaError: error,
+    fetchMediaAssets,
+    allPackages: packages,
+    allPackagesLoading: packagesLoading,
+    allPackagesError: packagesError,
+    fetchAllPackages,
+    carouselItems,
+    carouselLoading,
+    carouselError,
+    fetchCarouselItems,
+    allReviews: reviews,
+    allReviewsLoading: reviewsLoading,
+    allReviewsError: reviewsError,
+    fetchAllReviewPages
+  } = useAdminStore();
+  const router = useRouter();
+
+  const [showOrphansOnly, setShowOrphansOnly] = useState(false);
+  // Fallback for assets the API returns without dimensions
+  const [measuredSizes, setMeasuredSizes] = useState<Record<string, { width: number; height: number }>>({});
+
+  useEffect(() => {
+    if (!checkAuthStatus()) {
+      router.push('/admin-login');
+      return;
+    }
+    fetchMediaAssets();
+    // Usage is worked out from everything that can reference an image
+    fetchAllPackages();
+    fetchCarouselItems();
+    fetchAllReviewPages();
+  }, [checkAuthStatus, router, fetchMediaAssets, fetchAllPackages, fetchCarouselItems, fetchAllReviewPages]);
+
+  const usageIndex = buildMediaUsageIndex({ packages, carouselItems, reviews });
+  // Only call an image orphaned when every source loaded in full, including gallery lists
+  const canCheckOrphans =
+    !packagesLoading && !packagesError && packages.length > 0 &&
+    packages.every((pkg) => Array.isArray(pkg.images)) &&
+    !carouselLoading && !carouselError &&
+    !reviewsLoading && !reviewsError;
+  const isOrphan = (url: string) => canCheckOrphans && !usageIndex.has(url);
+  const orphanCount = mediaAssets.filter((asset) => isOrphan(asset.url)).length;
+  const displayedAssets = showOrphansOnly
+    ? mediaAssets.filter((asset) => isOrphan(asset.url))
+    : mediaAssets;
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Media Library</h1>
+            <p className="mt-2 text-gray-600">Images uploaded for packages, carousel slides and reviews.</p>
+          </div>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading media...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            {orphanCount > 0 && (
+              <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-3 text-sm text-yellow-800">
+                {orphanCount} image{orphanCount !== 1 ? 's are' : ' is'} not used by any package, slide or review.
+              </div>
+            )}
+            {!canCheckOrphans && (
+              <div className="bg-gray-50 border-b border-gray-200 px-4 py-3 text-sm text-gray-600">
+                Usage could not be fully loaded, so unused images are not flagged.
+              </div>
+            )}
+            <div className="px-4 py-5 sm:p-6">
+              <div className="mb-4 flex items-center justify-between">
+                <p className="text-sm text-gray-500">
+                  {mediaAssets.length} image{mediaAssets.length !== 1 ? 's' : ''}
+                </p>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={showOrphansOnly}
+                    onChange={(e) => setShowOrphansOnly(e.target.checked)}
+                    disabled={!canCheckOrphans}
+                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">Unused only</span>
+                </label>
+              </div>
+
+              {displayedAssets.length === 0 ? (
+                <p className="text-center py-12 text-sm text-gray-500">No images found.</p>
+              ) : (
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                  {displayedAssets.map((asset) => {
+                    const usages = usageIndex.get(asset.url) || [];
+                    const size = asset.width && asset.height
+                      ? { width: asset.width, height: asset.height }
+                      : measuredSizes[asset.url];
+
+                    return (
+                      <div key={asset.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                        <div className="relative h-36 w-full bg-gray-100">
+                          <Image
+                            src={asset.url}
+                            alt={asset.filename}
+                            fill
+                            className="object-cover"
+                            unoptimized={true}
+                            onLoad={(e) => {
+                              const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                              setMeasuredSizes((prev) => (prev[asset.url] ? prev : { ...prev, [asset.url]: { width, height } }));
+                            }}
+                          />
+                        </div>
+                        <div className="p-3 space-y-2">
+                          <p className="text-sm font-medium text-gray-900 truncate" title={asset.filename}>
+                            {asset.filename}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {size ? `${size.width} × ${size.height}` : 'Unknown size'} • {formatFileSize(asset.size)}
+                          </p>
+                          {usages.length > 0 ? (
+                            <ul className="space-y-1">
+                              {usages.map((usage, index) => (
+                                <li key={index} className="flex items-center text-xs">
+                                  <span className={`px-2 py-0.5 font-semibold rounded-full capitalize ${usageBadgeStyles[usage.type]}`}>
+                                    {usage.type}
+                                  </span>
+                                  <a href={usage.href} className="ml-2 truncate text-indigo-600 hover:text-indigo-900">
+                                    {usage.label}
+                                  </a>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : isOrphan(asset.url) ? (
+                            <p className="text-xs font-medium text-red-600">Not used anywhere</p>
+                          ) : null}
+                          <button
+                            type="button"
+                            onClick={() => navigator.clipboard.writeText(asset.url)}
+                            className="text-xs text-gray-600 hover:text-gray-900"
+                          >
+                            Copy URL
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { useAdminStore, Booking, Departure, TourPackage } from '@/store/adminStore';
+import {
+  SEAT_HOLDING_STATUSES,
+  getBookingDateKey,
+  getDepartureIssue,
+  getDepartureOccupancy,
+} from '@/lib/departures';
+import { clearFormDraft, confirmLeaveForm, formDraftKey, useFormDraft } from '@/lib/formDrafts';
+import DeparturesEditor from '@/components/DeparturesEditor';
+import DraftRestoreBanner from '@/components/DraftRestoreBanner';
+
+export default function PackageDeparturesPage() {
+  const { user, checkAuthStatus, fetchPackageById, fetchPackageBookings, updatePackage } = useAdminStore();
+  const router = useRouter();
+  const params = useParams();
+  const packageId = params.id as string;
+  const draftKey = formDraftKey('departures', packageId);
+
+  const [tourPackage, setTourPackage] = useState<TourPackage | null>(null);
+  const [departures, setDepartures] = useState<Departure[]>([]);
+  const [loadedDepartures, setLoadedDepartures] = useState<Departure[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [bookingsLoaded, setBookingsLoaded] = useState(false);
+  const [bookingsLoading, setBookingsLoading] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const dirty = JSON.stringify(departures) !== JSON.stringify(loadedDepartures);
+  const { draft, restoreDraft, discardDraft } = useFormDraft(draftKey, departures, {
+    dirty,
+    enabled: !loading,
+  });
+  const hasIssues = departures.some((departure) => getDepartureIssue(departure, departures));
+  const overbookedCount = bookingsLoaded
+    ? departures.filter((departure) => getDepartureOccupancy(departure, bookings).seatsRemaining < 0).length
+    : 0;
+  const departureDates = departures.map((departure) => departure.date);
+  const unscheduledBookings = bookings.filter(
+    (booking) =>
+      SEAT_HOLDING_STATUSES.includes(booking.status) &&
+      !departureDates.includes(getBookingDateKey(booking))
+  );
+
+  const loadPackage = useCallback(async () => {
+    setLoading(true);
+    const packageData = await fetchPackageById(packageId);
+    if (packageData) {
+      setTourPackage(packageData);
+      setDepartures(packageData.departures || []);
+      setLoadedDepartures(packageData.departures || []);
+    } else {
+      alert('Package not found');
+      router.push('/packages');
+    }
+    setLoading(false);
+  }, [fetchPackageById, packageId, router]);
+
+  const loadBookings = useCallback(async () => {
+    setBookingsLoading(true);
+    try {
+      setBookings(await fetchPackageBookings(packageId));
+      setBookingsLoaded(true);
+    } catch (error) {
+      console.error('Error loading bookings:', error);
+      setBookingsLoaded(false);
+    } finally {
+      setBookingsLoading(false);
+    }
+  }, [fetchPackageBookings, packageId]);
+
+  useEffect(() => {
+    if (!checkAuthStatus()) {
+      router.push('/admin-login');
+      return;
+    }
+
+    loadPackage();
+    loadBookings();
+  }, [checkAuthStatus, router, loadPackage, loadBookings]);
+
+  const handleRestoreDraft = () => {
+    const draftDepartures = restoreDraft();
+    if (draftDepartures) {
+      setDepartures(draftDepartures);
+    }
+  };
+
+  const handleSave = async () => {
+    if (hasIssues) {
+      alert('Fix the highlighted departures before saving.');
+      return;
+    }
+
+    const sorted = [...departures].sort((a, b) => a.date.localeCompare(b.date));
+    setSaving(true);
+    try {
+      await updatePackage(packageId, { departures: sorted });
+      setDepartures(sorted);
+      setLoadedDepartures(sorted);
+      clearFormDraft(draftKey);
+      alert('Departures saved successfully!');
+    } catch (error) {
+      console.error('Error saving departures:', error);
+      alert('Failed to save departures. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (confirmLeaveForm(draftKey, dirty)) {
+      router.push('/packages');
+    }
+  };
+
+  if (!user || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Departures</h1>
+            <p className="mt-2 text-gray-600">
+              {tourPackage?.title} · {tourPackage?.locationName}
+            </p>
+          </div>
+          <button
+            onClick={loadBookings}
+            disabled={bookingsLoading}
+            className="text-indigo-600 hover:text-indigo-900 text-sm font-medium disabled:opacity-50"
+          >
+            {bookingsLoading ? 'Refreshing...' : 'Refresh seat counts'}
+          </button>
+        </div>
+
+        {!bookingsLoading && !bookingsLoaded && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            Could not load bookings for this package, so remaining seats are unknown.
+          </div>
+        )}
+
+        {overbookedCount > 0 && (
+          <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded">
+            {overbookedCount} departure(s) have more pending and confirmed guests than seats.
+          </div>
+        )}
+
+        {draft && (
+          <div className="mb-6">
+            <DraftRestoreBanner savedAt={draft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
+          </div>
+        )}
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+          <DeparturesEditor
+            departures={departures}
+            onChange={setDepartures}
+            bookings={bookings}
+            bookingsLoaded={bookingsLoaded}
+          />
+
+          {bookingsLoaded && unscheduledBookings.length > 0 && (
+            <p className="mt-6 text-sm text-gray-500">
+              {unscheduledBookings.length} pending or confirmed booking(s) start on a date with no departure.
+            </p>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={handleBack}
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Back to Packages
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !dirty}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Departures'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,82 @@
 'use client';
 
-import React, { useEffect } from 'react';
+import React, { Suspense, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { useAdminStore } from '@/store/adminStore';
+import { useAdminStore, PackageStatus, TourPackage } from '@/store/adminStore';
+import { usePackageTemplateStore } from '@/store/packageTemplateStore';
+import { toPackageFormValues } from '@/lib/packageMapping';
+import { useUrlFilters } from '@/lib/urlFilters';
 
+const PAGE_SIZE = 10;
 
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'title:asc', label: 'Title (A-Z)' },
+  { value: 'pricePerPerson:asc', label: 'Price (low to high)' },
+  { value: 'pricePerPerson:desc', label: 'Price (high to low)' },
+  { value: 'rating:desc', label: 'Top rated' },
+];
 
-export default function PackagesPage() {
+const STATUS_TABS: { value: PackageStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'DRAFT', label: 'Drafts' },
+  { value: 'PUBLISHED', label: 'Published' },
+  { value: 'ARCHIVED', label: 'Archived' },
+];
+
+const statusBadgeStyles: Record<PackageStatus, string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-800',
+  PUBLISHED: 'bg-green-100 text-green-800',
+  ARCHIVED: 'bg-gray-200 text-gray-600',
+};
+
+// Removing a package loses its history, so only untouched drafts may go.
+// The list may leave out bookingsCount; deletePackage checks the bookings itself.
+const canDeletePackage = (pkg: TourPackage) => pkg.status === 'DRAFT' && !pkg.bookingsCount;
+
+function PackagesPageContent() {
   const {
     user,
     checkAuthStatus,
     packages,
     packagesLoading: loading,
     packagesError: error,
+    packagesPagination,
+    packagesQuery,
     fetchPackages,
+    fetchPackageById,
+    updatePackage,
     deletePackage
   } = useAdminStore();
+  const { savePackageTemplate } = usePackageTemplateStore();
   const router = useRouter();
+  const { searchParams, updateSearchParams, searchInput, handleSearchChange } = useUrlFilters('/packages');
+
+  // The URL is the source of truth so filtered views can be bookmarked
+  const currentPage = Number(searchParams.get('page')) || 1;
+  const query = searchParams.get('query') || '';
+  const category = searchParams.get('category') || '';
+  const difficulty = searchParams.get('difficulty') || '';
+  const status = searchParams.get('status') || '';
+  const sort = searchParams.get('sort') || SORT_OPTIONS[0].value;
 
   useEffect(() => {
     if (!checkAuthStatus()) {
       router.push('/admin-login');
       return;
     }
-    fetchPackages();
-  }, [checkAuthStatus, router, fetchPackages]);
+    fetchPackages({
+      page: currentPage,
+      limit: PAGE_SIZE,
+      query,
+      category,
+      difficulty,
+      status,
+      sort,
+    });
+  }, [checkAuthStatus, router, fetchPackages, currentPage, query, category, difficulty, status, sort]);
 
   const handleCreateNew = () => {
     router.push('/packages/create');
@@ -35,6 +86,48 @@ export default function PackagesPage() {
     router.push(`/packages/${packageId}/edit`);
   };
 
+  const handleDepartures = (packageId: string) => {
+    router.push(`/packages/${packageId}/departures`);
+  };
+
+  const handleDuplicate = (packageId: string) => {
+    router.push(`/packages/create?duplicateFrom=${packageId}`);
+  };
+
+  const handleSaveAsTemplate = async (packageId: string, packageTitle: string) => {
+    const name = prompt('Template name', packageTitle);
+    if (!name?.trim()) {
+      return;
+    }
+
+    // The list may omit detail fields, so build the template from the full package
+    const packageData = await fetchPackageById(packageId);
+    if (!packageData) {
+      alert('Failed to load package');
+      return;
+    }
+    try {
+      savePackageTemplate(name.trim(), toPackageFormValues(packageData));
+      alert(`Template "${name.trim()}" saved`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
+  const handleStatusChange = async (packageId: string, packageTitle: string, nextStatus: PackageStatus) => {
+    const action = { DRAFT: 'Unpublish', PUBLISHED: 'Publish', ARCHIVED: 'Archive' }[nextStatus];
+    if (!confirm(`${action} "${packageTitle}"?`)) {
+      return;
+    }
+
+    try {
+      await updatePackage(packageId, { status: nextStatus });
+    } catch (error) {
+      console.error('Error updating package status:', error);
+      alert(`Failed to ${action.toLowerCase()} package`);
+    }
+  };
+
   const handleDelete = async (packageId: string, packageTitle: string) => {
     if (confirm(`Are you sure you want to delete "${packageTitle}"?`)) {
       try {
@@ -42,7 +135,7 @@ export default function PackagesPage() {
         alert('Package deleted successfully');
       } catch (error) {
         console.error('Error deleting package:', error);
-        alert('Failed to delete package');
+        alert(error instanceof Error ? error.message : 'Failed to delete package');
       }
     }
   };
@@ -86,6 +179,70 @@ export default function PackagesPage() {
       </header>
 
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        {/* Status tabs */}
+        <div className="mb-4 border-b border-gray-200">
+          <nav className="-mb-px flex space-x-8">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => updateSearchParams({ status: tab.value })}
+                className={`whitespace-nowrap py-2 px-1 border-b-2 text-sm font-medium ${status === tab.value
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white shadow sm:rounded-md p-4 mb-6">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              className="focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+              placeholder="Search by title or location"
+            />
+            <select
+              value={category}
+              onChange={(e) => updateSearchParams({ category: e.target.value })}
+              className="block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="">All categories</option>
+              <option value="ADVENTURE">Adventure</option>
+              <option value="CULTURAL">Cultural</option>
+              <option value="NATURE">Nature</option>
+              <option value="LUXURY">Luxury</option>
+              <option value="BUDGET">Budget</option>
+            </select>
+            <select
+              value={difficulty}
+              onChange={(e) => updateSearchParams({ difficulty: e.target.value })}
+              className="block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="">All difficulties</option>
+              <option value="EASY">Easy</option>
+              <option value="MODERATE">Moderate</option>
+              <option value="HARD">Hard</option>
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => updateSearchParams({ sort: e.target.value })}
+              className="block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
         {loading ? (
           <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
@@ -106,7 +263,7 @@ export default function PackagesPage() {
                 </div>
                 <div className="mt-4">
                   <button
-                    onClick={fetchPackages}
+                    onClick={() => fetchPackages(packagesQuery)}
                     className="text-sm bg-red-100 hover:bg-red-200 text-red-800 px-3 py-1 rounded-md"
                   >
                     Try Again
@@ -119,7 +276,7 @@ export default function PackagesPage() {
           <div className="bg-white shadow overflow-hidden sm:rounded-md">
             <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
               <h3 className="text-lg leading-6 font-medium text-gray-900">
-                Tour Packages ({packages.length})
+                Tour Packages ({packagesPagination?.total ?? packages.length})
               </h3>
               <p className="mt-1 max-w-2xl text-sm text-gray-500">
                 Manage your tour packages and their details
@@ -131,7 +288,11 @@ export default function PackagesPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
                 </svg>
                 <h3 className="mt-2 text-sm font-medium text-gray-900">No packages</h3>
-                <p className="mt-1 text-sm text-gray-500">Get started by creating a new tour package.</p>
+                <p className="mt-1 text-sm text-gray-500">
+                  {query || category || difficulty || status
+                    ? 'No packages match the current filters.'
+                    : 'Get started by creating a new tour package.'}
+                </p>
                 <div className="mt-6">
                   <button
                     onClick={handleCreateNew}
@@ -165,11 +326,14 @@ export default function PackagesPage() {
                             </div>
                           )}
                           <div className={pkg.coverImage ? "ml-4" : ""}>
-                            <div className="text-sm font-medium text-gray-900">
+                            <div className="flex items-center text-sm font-medium text-gray-900">
                               {pkg.title}
+                              <span className={`ml-2 px-2 py-0.5 text-xs font-semibold rounded-full ${statusBadgeStyles[pkg.status]}`}>
+                                {pkg.status}
+                              </span>
                             </div>
                             <div className="text-sm text-gray-500">
-                              📍 {pkg.location} • {pkg.duration} days • ${pkg.price}
+                              📍 {pkg.locationName} • {pkg.duration} days • ${pkg.pricePerPerson} / person
                             </div>
                             <div className="mt-1 flex items-center space-x-4 text-xs text-gray-400">
                               <span className="bg-gray-100 px-2 py-1 rounded">
@@ -191,9 +355,53 @@ export default function PackagesPage() {
                           >
                             Edit
                           </button>
+                          <button
+                            onClick={() => handleDepartures(pkg.id)}
+                            className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
+                          >
+                            Departures
+                          </button>
+                          <button
+                            onClick={() => handleDuplicate(pkg.id)}
+                            className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
+                          >
+                            Duplicate
+                          </button>
+                          <button
+                            onClick={() => handleSaveAsTemplate(pkg.id, pkg.title)}
+                            className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
+                          >
+                            Save as Template
+                          </button>
+                          {pkg.status !== 'PUBLISHED' && (
+                            <button
+                              onClick={() => handleStatusChange(pkg.id, pkg.title, 'PUBLISHED')}
+                              className="text-green-600 hover:text-green-900 text-sm font-medium"
+                            >
+                              Publish
+                            </button>
+                          )}
+                          {pkg.status === 'PUBLISHED' && (
+                            <button
+                              onClick={() => handleStatusChange(pkg.id, pkg.title, 'DRAFT')}
+                              className="text-yellow-600 hover:text-yellow-900 text-sm font-medium"
+                            >
+                              Unpublish
+                            </button>
+                          )}
+                          {pkg.status !== 'ARCHIVED' && (
+                            <button
+                              onClick={() => handleStatusChange(pkg.id, pkg.title, 'ARCHIVED')}
+                              className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                            >
+                              Archive
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDelete(pkg.id, pkg.title)}
-                            className="text-red-600 hover:text-red-900 text-sm font-medium"
+                            disabled={!canDeletePackage(pkg)}
+                            title={canDeletePackage(pkg) ? undefined : 'Only drafts without bookings can be deleted'}
+                            className="text-red-600 hover:text-red-900 text-sm font-medium disabled:opacity-30 disabled:cursor-not-allowed"
                           >
                             Delete
                           </button>
@@ -204,9 +412,44 @@ export default function PackagesPage() {
                 ))}
               </ul>
             )}
+
+            {/* Pagination */}
+            {packagesPagination && packagesPagination.pages > 1 && (
+              <div className="flex justify-center items-center gap-2 px-4 py-4 border-t border-gray-200">
+                <button
+                  onClick={() => updateSearchParams({ page: Math.max(1, currentPage - 1) })}
+                  disabled={currentPage === 1}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                >
+                  Previous
+                </button>
+
+                <span className="text-sm text-gray-600 mx-4">
+                  Page {packagesPagination.page} of {packagesPagination.pages}
+                  ({packagesPagination.total} total packages)
+                </span>
+
+                <button
+                  onClick={() => updateSearchParams({ page: Math.min(packagesPagination.pages, currentPage + 1) })}
+                  disabled={currentPage === packagesPagination.pages}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
           </div>
         )}
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function PackagesPage() {
+  // useSearchParams needs a Suspense boundary for the static build
+  return (
+    <Suspense>
+      <PackagesPageContent />
+    </Suspense>
+  );
+}
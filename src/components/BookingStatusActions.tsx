@@ -0,0 +1,74 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAdminStore, Booking, BookingStatus } from '@/store/adminStore';
+import {
+  BOOKING_STATUS_ACTION_LABELS,
+  getNextBookingStatuses,
+  promptCancellationReason,
+} from '@/lib/bookingStatus';
+
+interface BookingStatusActionsProps {
+  booking: Booking;
+  onChanged?: (status: BookingStatus) => void;
+}
+
+// Only offers the moves the booking status state machine allows from the current status
+export default function BookingStatusActions({ booking, onChanged }: BookingStatusActionsProps) {
+  const { confirmBooking, completeBooking, cancelBooking } = useAdminStore();
+  const [updating, setUpdating] = useState(false);
+  const nextStatuses = getNextBookingStatuses(booking.status);
+
+  const runUpdate = async (status: BookingStatus, update: () => Promise<void>) => {
+    setUpdating(true);
+    try {
+      await update();
+      onChanged?.(status);
+    } catch (error) {
+      console.error('Error updating booking status:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update booking status');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const updateStatus = (status: BookingStatus) => {
+    if (status === 'CANCELLED') {
+      const reason = promptCancellationReason();
+      if (reason) {
+        runUpdate(status, () => cancelBooking(booking.id, reason));
+      }
+      return;
+    }
+
+    if (!confirm(`${BOOKING_STATUS_ACTION_LABELS[status]} this booking?`)) {
+      return;
+    }
+    runUpdate(status, () =>
+      status === 'COMPLETED' ? completeBooking(booking.id) : confirmBooking(booking.id)
+    );
+  };
+
+  if (nextStatuses.length === 0) {
+    return <span className="text-xs text-gray-400">No further changes</span>;
+  }
+
+  return (
+    <span className="space-x-2">
+      {nextStatuses.map((status) => (
+        <button
+          key={status}
+          type="button"
+          onClick={() => updateStatus(status)}
+          disabled={updating}
+          className={`text-xs disabled:opacity-50 ${status === 'CANCELLED'
+            ? 'text-red-600 hover:text-red-900'
+            : 'text-blue-600 hover:text-blue-900'
+            }`}
+        >
+          {BOOKING_STATUS_ACTION_LABELS[status]}
+        </button>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState } from 'react';
+import Image from 'next/image';
+import type { CarouselItem, TourPackage } from '@/store/adminStore';
+
+interface CarouselPreviewProps {
+  items: CarouselItem[];
+  packages: TourPackage[];
+}
+
+const SWIPE_THRESHOLD_PX = 50;
+
+const describeAction = (item: CarouselItem, packages: TourPackage[]) => {
+  if (item.actionType === 'EXTERNAL') {
+    return { label: 'Opens website', target: item.actionValue };
+  }
+
+  const pkg = packages.find((p) => p.id === item.actionValue);
+  return pkg
+    ? { label: 'Opens package', target: pkg.title }
+    : { label: 'Package not found', target: item.actionValue };
+};
+
+export default function CarouselPreview({ items, packages }: CarouselPreviewProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [touchStartX, setTouchStartX] = useState<number | null>(null);
+  const [tappedItemId, setTappedItemId] = useState<string | null>(null);
+
+  // Items can disappear while the preview is open, so clamp instead of resetting
+  const currentIndex = Math.min(activeIndex, Math.max(items.length - 1, 0));
+  const tappedItem = items.find((item) => item.id === tappedItemId);
+  const tappedAction = tappedItem && describeAction(tappedItem, packages);
+
+  const goTo = (index: number) => {
+    setActiveIndex((index + items.length) % items.length);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX === null) return;
+
+    const deltaX = e.changedTouches[0].clientX - touchStartX;
+    if (Math.abs(deltaX) > SWIPE_THRESHOLD_PX) {
+      goTo(currentIndex + (deltaX < 0 ? 1 : -1));
+    }
+    setTouchStartX(null);
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-md px-4 py-5 sm:p-6">
+      <h3 className="text-lg font-medium text-gray-900">App Preview</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Active slides as they appear on the home screen. Tap a slide to see where it leads.
+      </p>
+
+      <div className="mt-6 mx-auto w-[300px] h-[600px] rounded-[2.5rem] border-8 border-gray-900 bg-gray-100 overflow-hidden">
+        <div className="h-6 bg-gray-900 mx-auto w-32 rounded-b-xl" />
+        <div className="px-3 pt-4">
+          {items.length === 0 ? (
+            <div className="h-44 rounded-xl bg-gray-200 flex items-center justify-center text-sm text-gray-500">
+              No live slides
+            </div>
+          ) : (
+            <>
+              <div
+                className="relative h-44 rounded-xl overflow-hidden"
+                onTouchStart={(e) => setTouchStartX(e.touches[0].clientX)}
+                onTouchEnd={handleTouchEnd}
+              >
+                <div
+                  className="flex h-full transition-transform duration-300"
+                  style={{ transform: `translateX(-${currentIndex * 100}%)` }}
+                >
+                  {items.map((item) => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      onClick={() => setTappedItemId(item.id)}
+                      className="relative h-full w-full flex-shrink-0 text-left"
+                    >
+                      <Image
+                        src={item.imageUrl}
+                        alt={item.title}
+                        fill
+                        className="object-cover"
+                        unoptimized={true}
+                      />
+                      <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent p-3">
+                        <p className="text-sm font-semibold text-white">{item.title}</p>
+                        {item.description && (
+                          <p className="text-xs text-gray-200 line-clamp-2">{item.description}</p>
+                        )}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+                {items.length > 1 && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => goTo(currentIndex - 1)}
+                      className="absolute left-1 top-1/2 -translate-y-1/2 h-7 w-7 rounded-full bg-white/80 text-gray-800"
+                      aria-label="Previous slide"
+                    >
+                      ‹
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => goTo(currentIndex + 1)}
+                      className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 rounded-full bg-white/80 text-gray-800"
+                      aria-label="Next slide"
+                    >
+                      ›
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="mt-2 flex justify-center space-x-1.5">
+                {items.map((item, index) => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => goTo(index)}
+                    className={`h-1.5 rounded-full ${index === currentIndex ? 'w-4 bg-indigo-600' : 'w-1.5 bg-gray-400'}`}
+                    aria-label={`Go to slide ${index + 1}`}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+          <div className="mt-6 space-y-3">
+            <div className="h-4 w-1/2 rounded bg-gray-200" />
+            <div className="h-24 rounded-xl bg-gray-200" />
+            <div className="h-24 rounded-xl bg-gray-200" />
+          </div>
+        </div>
+      </div>
+
+      {tappedItem && tappedAction && (
+        <div className="mt-4 rounded-md border border-indigo-200 bg-indigo-50 p-3 text-sm">
+          <p className="font-medium text-indigo-900">{tappedItem.title}</p>
+          <p className="mt-1 text-indigo-800">
+            {tappedAction.label}:{' '}
+            <span className="font-medium break-all">{tappedAction.target}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import React from 'react';
+import type { Booking, Departure } from '@/store/adminStore';
+import { getDepartureIssue, getDepartureOccupancy, newDeparture } from '@/lib/departures';
+
+interface DeparturesEditorProps {
+  departures: Departure[];
+  onChange: (departures: Departure[]) => void;
+  bookings: Booking[];
+  // Seat counts are only shown once every booking for the package has loaded
+  bookingsLoaded: boolean;
+}
+
+const inputClassName =
+  'mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md';
+
+export default function DeparturesEditor({
+  departures,
+  onChange,
+  bookings,
+  bookingsLoaded,
+}: DeparturesEditorProps) {
+  const updateDeparture = (index: number, changes: Partial<Departure>) => {
+    onChange(departures.map((departure, i) => (i === index ? { ...departure, ...changes } : departure)));
+  };
+
+  const removeDeparture = (index: number) => {
+    const { bookedSeats } = getDepartureOccupancy(departures[index], bookings);
+    if (
+      bookedSeats > 0 &&
+      !confirm(`${bookedSeats} seat(s) are booked on this departure. Remove it anyway?`)
+    ) {
+      return;
+    }
+    onChange(departures.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {departures.length === 0 && (
+        <p className="text-sm text-gray-500">No departures scheduled yet.</p>
+      )}
+
+      {departures.map((departure, index) => {
+        const issue = getDepartureIssue(departure, departures);
+        const occupancy = getDepartureOccupancy(departure, bookings);
+        const overbooked = bookingsLoaded && occupancy.seatsRemaining < 0;
+
+        return (
+          <div
+            key={departure.id}
+            className={`border rounded-md p-4 ${overbooked ? 'border-red-300' : 'border-gray-200'}`}
+          >
+            <div className="grid grid-cols-6 gap-3">
+              <div className="col-span-6 sm:col-span-2">
+                <span className="block text-xs font-medium text-gray-600">Date</span>
+                <input
+                  type="date"
+                  value={departure.date}
+                  onChange={(e) => updateDeparture(index, { date: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="col-span-3 sm:col-span-1">
+                <span className="block text-xs font-medium text-gray-600">Capacity</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={Number.isNaN(departure.capacity) ? '' : departure.capacity}
+                  onChange={(e) => updateDeparture(index, { capacity: e.target.valueAsNumber })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="col-span-3 sm:col-span-2">
+                <span className="block text-xs font-medium text-gray-600">Guide</span>
+                <input
+                  type="text"
+                  value={departure.guideName || ''}
+                  onChange={(e) => updateDeparture(index, { guideName: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Unassigned"
+                />
+              </div>
+              <div className="col-span-6 sm:col-span-1 flex items-end justify-end">
+                <button
+                  type="button"
+                  onClick={() => removeDeparture(index)}
+                  className="text-red-600 hover:text-red-700 text-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-3 flex items-center justify-between text-sm">
+              {bookingsLoaded ? (
+                <span className={overbooked ? 'text-red-700 font-medium' : 'text-gray-700'}>
+                  {occupancy.bookedSeats} booked ·{' '}
+                  {overbooked
+                    ? `overbooked by ${-occupancy.seatsRemaining}`
+                    : `${occupancy.seatsRemaining} seat(s) remaining`}
+                </span>
+              ) : (
+                <span className="text-gray-400">Seat counts unavailable</span>
+              )}
+              {bookingsLoaded && occupancy.bookings.length > 0 && (
+                <span className="text-xs text-gray-500">
+                  {occupancy.bookings.length} pending or confirmed booking(s)
+                </span>
+              )}
+            </div>
+
+            {overbooked && (
+              <div className="mt-3 bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-2 rounded text-sm">
+                These bookings take the departure past its capacity:
+                <ul className="mt-1 list-disc list-inside">
+                  {occupancy.bookings
+                    .filter((booking) => occupancy.overbookingIds.includes(booking.id))
+                    .map((booking) => (
+                      <li key={booking.id}>
+                        {booking.contactName} ({booking.guests} guest{booking.guests === 1 ? '' : 's'},{' '}
+                        {booking.status.toLowerCase()}), booked {new Date(booking.createdAt).toLocaleDateString()}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+
+            {issue && <p className="mt-2 text-sm text-red-600">{issue}</p>}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...departures, newDeparture()])}
+        className="text-indigo-600 hover:text-indigo-700 text-sm font-medium"
+      >
+        + Add departure
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+
+interface DraftRestoreBannerProps {
+  savedAt: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export default function DraftRestoreBanner({ savedAt, onRestore, onDiscard }: DraftRestoreBannerProps) {
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 flex items-center justify-between">
+      <p className="text-sm text-yellow-800">
+        You have unsaved changes from {new Date(savedAt).toLocaleString()}.
+      </p>
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={onRestore}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-900"
+        >
+          Restore
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="text-sm font-medium text-gray-600 hover:text-gray-900"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
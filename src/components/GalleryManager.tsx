@@ -0,0 +1,236 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { ALLOWED_IMAGE_TYPES, uploadImage } from '@/lib/imageUpload';
+import { moveItem } from '@/lib/arrayUtils';
+import MediaLibraryPicker from '@/components/MediaLibraryPicker';
+
+interface GalleryManagerProps {
+  images: string[];
+  onChange: (images: string[]) => void;
+  coverImage: string;
+  onSetCover: (url: string) => void;
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+interface QueuedUpload {
+  id: string;
+  file: File;
+  previewUrl: string;
+  progress: number;
+  status: 'uploading' | 'failed';
+  error?: string;
+}
+
+let nextUploadId = 0;
+
+export default function GalleryManager({
+  images,
+  onChange,
+  coverImage,
+  onSetCover,
+  onUploadingChange,
+}: GalleryManagerProps) {
+  const [queue, setQueue] = useState<QueuedUpload[]>([]);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [urlInput, setUrlInput] = useState('');
+  // Uploads finish independently, so append to the latest list rather than a stale render
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const uploading = queue.some((upload) => upload.status === 'uploading');
+
+  useEffect(() => {
+    onUploadingChange?.(uploading);
+  }, [uploading, onUploadingChange]);
+
+  const updateUpload = (id: string, changes: Partial<QueuedUpload>) => {
+    setQueue((prev) => prev.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+  };
+
+  const appendImage = (url: string) => {
+    const next = [...imagesRef.current, url];
+    imagesRef.current = next;
+    onChange(next);
+  };
+
+  const startUpload = async (upload: QueuedUpload) => {
+    updateUpload(upload.id, { status: 'uploading', progress: 0, error: undefined });
+
+    try {
+      const image = await uploadImage(upload.file, {
+        onProgress: (progress) => updateUpload(upload.id, { progress }),
+      });
+      appendImage(image.url);
+      URL.revokeObjectURL(upload.previewUrl);
+      setQueue((prev) => prev.filter((item) => item.id !== upload.id));
+    } catch (error) {
+      updateUpload(upload.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to upload image',
+      });
+    }
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const uploads: QueuedUpload[] = files.map((file) => ({
+      id: `upload-${nextUploadId++}`,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      progress: 0,
+      status: 'uploading',
+    }));
+    setQueue((prev) => [...prev, ...uploads]);
+    uploads.forEach(startUpload);
+  };
+
+  const dismissUpload = (upload: QueuedUpload) => {
+    URL.revokeObjectURL(upload.previewUrl);
+    setQueue((prev) => prev.filter((item) => item.id !== upload.id));
+  };
+
+  const handleAddUrl = () => {
+    const url = urlInput.trim();
+    if (!url) return;
+    appendImage(url);
+    setUrlInput('');
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetIndex: number) => {
+    e.preventDefault();
+    if (draggedIndex === null || draggedIndex === targetIndex) {
+      return;
+    }
+    onChange(moveItem(images, draggedIndex, targetIndex));
+    setDraggedIndex(targetIndex);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        {images.map((url, index) => (
+          <div
+            key={`${url}-${index}`}
+            draggable
+            onDragStart={() => setDraggedIndex(index)}
+            onDragOver={(e) => handleDragOver(e, index)}
+            onDragEnd={() => setDraggedIndex(null)}
+            className={`relative rounded-md border border-gray-200 overflow-hidden cursor-move ${draggedIndex === index ? 'opacity-50' : ''
+              }`}
+          >
+            <div className="relative h-24 w-full bg-gray-100">
+              <Image src={url} alt={`Gallery image ${index + 1}`} fill className="object-cover" unoptimized={true} />
+              {url === coverImage && (
+                <span className="absolute top-1 left-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-600 text-white">
+                  Cover
+                </span>
+              )}
+            </div>
+            <div className="flex justify-between px-2 py-1 text-xs">
+              <button
+                type="button"
+                onClick={() => onSetCover(url)}
+                disabled={url === coverImage}
+                className="text-indigo-600 hover:text-indigo-900 disabled:opacity-30"
+              >
+                Make cover
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(images.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-900"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {queue.map((upload) => (
+          <div key={upload.id} className="relative rounded-md border border-gray-200 overflow-hidden">
+            <div className="relative h-24 w-full bg-gray-100">
+              <Image src={upload.previewUrl} alt={upload.file.name} fill className="object-cover opacity-60" unoptimized={true} />
+            </div>
+            {upload.status === 'uploading' ? (
+              <div className="px-2 py-1">
+                <div className="h-1.5 rounded-full bg-gray-200">
+                  <div className="h-1.5 rounded-full bg-indigo-600" style={{ width: `${upload.progress}%` }} />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Uploading... {upload.progress}%</p>
+              </div>
+            ) : (
+              <div className="flex justify-between px-2 py-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => startUpload(upload)}
+                  className="text-indigo-600 hover:text-indigo-900"
+                >
+                  Retry
+                </button>
+                <button
+                  type="button"
+                  onClick={() => dismissUpload(upload)}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
+            {upload.status === 'failed' && (
+              <p className="px-2 pb-1 text-xs text-red-600 break-words">{upload.error}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {images.length === 0 && queue.length === 0 && (
+        <p className="text-sm text-gray-500">No gallery images yet.</p>
+      )}
+      {images.length > 1 && (
+        <p className="text-xs text-gray-500">Drag thumbnails to change their order.</p>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="url"
+          value={urlInput}
+          onChange={(e) => setUrlInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddUrl();
+            }
+          }}
+          className="flex-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+          placeholder="https://example.com/image.jpg"
+        />
+        <button
+          type="button"
+          onClick={handleAddUrl}
+          className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
+        >
+          + Add URL
+        </button>
+        <input
+          type="file"
+          accept={ALLOWED_IMAGE_TYPES.join(',')}
+          multiple
+          onChange={handleFilesSelected}
+          className="hidden"
+          id="galleryImageFiles"
+        />
+        <label
+          htmlFor="galleryImageFiles"
+          className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
+        >
+          Upload Images
+        </label>
+      </div>
+      <MediaLibraryPicker onSelect={appendImage} selectedUrls={images} />
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { ItineraryDay, ItineraryMeal } from '@/store/adminStore';
+import { moveItem } from '@/lib/arrayUtils';
+import { ITINERARY_MEALS, renumberItinerary } from '@/lib/itinerary';
+import StringListEditor from '@/components/StringListEditor';
+
+interface ItineraryEditorProps {
+  days: ItineraryDay[];
+  duration: number;
+  onChange: (days: ItineraryDay[]) => void;
+}
+
+export default function ItineraryEditor({ days, duration, onChange }: ItineraryEditorProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  const updateDay = (index: number, changes: Partial<ItineraryDay>) => {
+    onChange(days.map((day, i) => (i === index ? { ...day, ...changes } : day)));
+  };
+
+  const toggleMeal = (index: number, meal: ItineraryMeal) => {
+    const meals = days[index].meals || [];
+    updateDay(index, {
+      meals: meals.includes(meal)
+        ? meals.filter((m) => m !== meal)
+        : ITINERARY_MEALS.filter((m) => m === meal || meals.includes(m)),
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetIndex: number) => {
+    e.preventDefault();
+    if (draggedIndex === null || draggedIndex === targetIndex) {
+      return;
+    }
+    onChange(renumberItinerary(moveItem(days, draggedIndex, targetIndex)));
+    setDraggedIndex(targetIndex);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        One entry per day of the package duration. Drag a day by its header to change the order.
+      </p>
+      {days.map((day, index) => {
+        const beyondDuration = day.day > duration;
+        return (
+          <div
+            key={index}
+            onDragOver={(e) => handleDragOver(e, index)}
+            className={`border rounded-md p-4 ${beyondDuration ? 'border-yellow-300 bg-yellow-50' : 'border-gray-200'
+              } ${draggedIndex === index ? 'opacity-50' : ''}`}
+          >
+            {/* Only the header drags, so text in the fields below stays selectable */}
+            <div
+              draggable
+              onDragStart={() => setDraggedIndex(index)}
+              onDragEnd={() => setDraggedIndex(null)}
+              className="flex items-center justify-between mb-2 cursor-move"
+            >
+              <span className="text-sm font-medium text-gray-700">
+                Day {day.day}
+                {beyondDuration && <span className="ml-2 text-xs text-yellow-800">Beyond package duration</span>}
+              </span>
+              <div className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  onClick={() => onChange(renumberItinerary(moveItem(days, index, index - 1)))}
+                  disabled={index === 0}
+                  className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move day up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(renumberItinerary(moveItem(days, index, index + 1)))}
+                  disabled={index === days.length - 1}
+                  className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move day down"
+                >
+                  ↓
+                </button>
+                {beyondDuration && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(renumberItinerary(days.filter((_, i) => i !== index)))}
+                    className="text-red-600 hover:text-red-700 text-sm"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+            <input
+              type="text"
+              value={day.title}
+              onChange={(e) => updateDay(index, { title: e.target.value })}
+              className="focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+              placeholder="e.g., Arrival and welcome dinner"
+            />
+            <textarea
+              rows={2}
+              value={day.description}
+              onChange={(e) => updateDay(index, { description: e.target.value })}
+              className="mt-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+              placeholder="What happens on this day..."
+            />
+            <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <div>
+                <span className="block text-xs font-medium text-gray-600">Meals</span>
+                <div className="mt-1 flex space-x-4">
+                  {ITINERARY_MEALS.map((meal) => (
+                    <label key={meal} className="flex items-center text-sm text-gray-700 capitalize">
+                      <input
+                        type="checkbox"
+                        checked={day.meals?.includes(meal) || false}
+                        onChange={() => toggleMeal(index, meal)}
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-1">{meal.toLowerCase()}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <span className="block text-xs font-medium text-gray-600">Accommodation</span>
+                <input
+                  type="text"
+                  value={day.accommodation || ''}
+                  onChange={(e) => updateDay(index, { accommodation: e.target.value })}
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                  placeholder="e.g., Ubud Jungle Resort"
+                />
+              </div>
+            </div>
+            <div className="mt-3">
+              <span className="block text-xs font-medium text-gray-600 mb-1">Activities</span>
+              <StringListEditor
+                items={day.activities || []}
+                onChange={(activities) => updateDay(index, { activities })}
+                placeholder="e.g., Rice terrace walk"
+                addLabel="+ Add Activity"
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
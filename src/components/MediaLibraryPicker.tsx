@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import Image from 'next/image';
+import { useAdminStore } from '@/store/adminStore';
+
+interface MediaLibraryPickerProps {
+  onSelect: (url: string) => void;
+  selectedUrls?: string[];
+}
+
+export default function MediaLibraryPicker({ onSelect, selectedUrls = [] }: MediaLibraryPickerProps) {
+  const { mediaAssets, mediaLoading, mediaError, fetchMediaAssets } = useAdminStore();
+  const [open, setOpen] = useState(false);
+
+  const handleToggle = () => {
+    if (!open) {
+      fetchMediaAssets();
+    }
+    setOpen(!open);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
+      >
+        {open ? 'Close library' : 'Choose from library'}
+      </button>
+
+      {open && (
+        <div className="mt-2 rounded-md border border-gray-200 p-3">
+          {mediaLoading ? (
+            <p className="text-sm text-gray-500">Loading media...</p>
+          ) : mediaError ? (
+            <p className="text-sm text-red-600">{mediaError}</p>
+          ) : mediaAssets.length === 0 ? (
+            <p className="text-sm text-gray-500">No uploaded images yet.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+              {mediaAssets.map((asset) => {
+                const selected = selectedUrls.includes(asset.url);
+                return (
+                  <button
+                    key={asset.id}
+                    type="button"
+                    onClick={() => {
+                      onSelect(asset.url);
+                      setOpen(false);
+                    }}
+                    disabled={selected}
+                    className={`relative h-20 rounded overflow-hidden border-2 ${selected ? 'border-indigo-500 opacity-50 cursor-not-allowed' : 'border-transparent hover:border-indigo-300'
+                      }`}
+                    title={asset.filename}
+                  >
+                    <Image src={asset.url} alt={asset.filename} fill className="object-cover" unoptimized={true} />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,451 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { ALLOWED_IMAGE_TYPES, uploadImage } from '@/lib/imageUpload';
+import {
+  PackageFormValues,
+  PackageListField,
+  cleanPackageFormValues,
+  emptyPackageForm,
+  packageSchema,
+} from '@/lib/packageSchema';
+import { resizeItinerary } from '@/lib/itinerary';
+import { confirmLeaveForm, useFormDraft } from '@/lib/formDrafts';
+import StringListEditor from '@/components/StringListEditor';
+import ItineraryEditor from '@/components/ItineraryEditor';
+import GalleryManager from '@/components/GalleryManager';
+import MediaLibraryPicker from '@/components/MediaLibraryPicker';
+import DraftRestoreBanner from '@/components/DraftRestoreBanner';
+import PricingRulesEditor from '@/components/PricingRulesEditor';
+import PriceCalendar from '@/components/PriceCalendar';
+
+interface PackageFormProps {
+  defaultValues?: PackageFormValues;
+  // List fields that could not be loaded are shown read-only and must not be saved
+  unavailableFields?: PackageListField[];
+  submitLabel: string;
+  submittingLabel: string;
+  // Autosave slot; the page clears it once the package is saved
+  draftKey: string;
+  onSubmit: (values: PackageFormValues) => Promise<void>;
+  onCancel: () => void;
+  onDirtyChange?: (dirty: boolean) => void;
+}
+
+interface FormSectionProps {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}
+
+function FormSection({ title, description, children }: FormSectionProps) {
+  return (
+    <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+      <div className="md:grid md:grid-cols-3 md:gap-6">
+        <div className="md:col-span-1">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">{title}</h3>
+          <p className="mt-1 text-sm text-gray-500">{description}</p>
+        </div>
+        <div className="mt-5 md:mt-0 md:col-span-2">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+function UnavailableField() {
+  return (
+    <p className="text-sm text-gray-500">
+      This field could not be loaded, so it will be left unchanged.
+    </p>
+  );
+}
+
+export default function PackageForm({
+  defaultValues = emptyPackageForm,
+  unavailableFields = [],
+  submitLabel,
+  submittingLabel,
+  draftKey,
+  onSubmit,
+  onCancel,
+  onDirtyChange,
+}: PackageFormProps) {
+  const [loading, setLoading] = useState(false);
+  const [uploadingImage, setUploadingImage] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadingGallery, setUploadingGallery] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    setValue,
+    getValues,
+    watch,
+    reset,
+  } = useForm<PackageFormValues>({
+    resolver: yupResolver(packageSchema),
+    defaultValues,
+  });
+
+  const values = watch();
+  const { draft, restoreDraft, discardDraft } = useFormDraft(draftKey, values, { dirty: isDirty });
+  const coverImage = watch('coverImage');
+
+  useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty, onDirtyChange]);
+
+  const handleRestoreDraft = () => {
+    const draftValues = restoreDraft();
+    if (draftValues) {
+      // Keep the loaded values as the baseline so the restored form counts as dirty
+      reset(draftValues, { keepDefaultValues: true });
+    }
+  };
+  const duration = watch('duration');
+
+  // Keep one itinerary entry per day as the duration changes
+  useEffect(() => {
+    if (!Number.isInteger(duration) || duration < 1) return;
+    const itinerary = getValues('itinerary');
+    const resized = resizeItinerary(itinerary, duration);
+    if (resized !== itinerary) {
+      setValue('itinerary', resized);
+    }
+  }, [duration, getValues, setValue]);
+  const isAvailable = (field: PackageListField) => !unavailableFields.includes(field);
+
+  const handleCoverImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setUploadingImage(true);
+      setUploadProgress(0);
+      const image = await uploadImage(file, { onProgress: setUploadProgress });
+      setValue('coverImage', image.url, { shouldValidate: true });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to upload image');
+    } finally {
+      setUploadingImage(false);
+    }
+  };
+
+  const submit = async (values: PackageFormValues) => {
+    setLoading(true);
+    try {
+      await onSubmit(cleanPackageFormValues(values));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-6">
+      {draft && (
+        <DraftRestoreBanner savedAt={draft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
+      )}
+
+      {/* Basic Information */}
+      <FormSection title="Basic Information" description="Essential details about your tour package.">
+        <div className="grid grid-cols-6 gap-6">
+          <div className="col-span-6">
+            <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+              Package Title *
+            </label>
+            <input
+              type="text"
+              id="title"
+              {...register('title')}
+              className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.title ? 'border-red-300' : ''
+                }`}
+              placeholder="e.g., Amazing Bali Adventure"
+            />
+            {errors.title && <p className="mt-2 text-sm text-red-600">{errors.title.message}</p>}
+          </div>
+
+          <div className="col-span-6">
+            <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+              Description *
+            </label>
+            <textarea
+              id="description"
+              rows={4}
+              {...register('description')}
+              className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.description ? 'border-red-300' : ''
+                }`}
+              placeholder="Describe what makes this tour special..."
+            />
+            {errors.description && <p className="mt-2 text-sm text-red-600">{errors.description.message}</p>}
+          </div>
+
+          <div className="col-span-6 sm:col-span-3">
+            <label htmlFor="location" className="block text-sm font-medium text-gray-700">
+              Location *
+            </label>
+            <input
+              type="text"
+              id="location"
+              {...register('location')}
+              className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.location ? 'border-red-300' : ''
+                }`}
+              placeholder="e.g., Bali, Indonesia"
+            />
+            {errors.location && <p className="mt-2 text-sm text-red-600">{errors.location.message}</p>}
+          </div>
+
+          <div className="col-span-6 sm:col-span-3">
+            <label htmlFor="coverImage" className="block text-sm font-medium text-gray-700">
+              Cover Image
+            </label>
+            <div className="mt-1 flex space-x-2">
+              <input
+                type="url"
+                id="coverImage"
+                {...register('coverImage')}
+                className={`flex-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.coverImage ? 'border-red-300' : ''
+                  }`}
+                placeholder="https://example.com/image.jpg"
+              />
+              <input
+                type="file"
+                accept={ALLOWED_IMAGE_TYPES.join(',')}
+                onChange={handleCoverImageUpload}
+                disabled={uploadingImage}
+                className="hidden"
+                id="coverImageFile"
+              />
+              <label
+                htmlFor="coverImageFile"
+                className={`inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 cursor-pointer ${uploadingImage ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+              >
+                {uploadingImage ? `Uploading ${uploadProgress}%` : 'Upload'}
+              </label>
+            </div>
+            <div className="mt-2">
+              <MediaLibraryPicker
+                onSelect={(url) => setValue('coverImage', url, { shouldDirty: true, shouldValidate: true })}
+                selectedUrls={coverImage ? [coverImage] : []}
+              />
+            </div>
+            {errors.coverImage && <p className="mt-2 text-sm text-red-600">{errors.coverImage.message}</p>}
+            {coverImage && (
+              <div className="mt-2">
+                <img
+                  src={coverImage}
+                  alt="Cover Preview"
+                  className="h-20 w-32 object-cover rounded border"
+                  onError={(e) => {
+                    e.currentTarget.style.display = 'none';
+                  }}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="col-span-6 sm:col-span-2">
+            <label htmlFor="price" className="block text-sm font-medium text-gray-700">
+              Price per Person (USD) *
+            </label>
+            <input
+              type="number"
+              id="price"
+              min="0"
+              step="0.01"
+              {...register('price', { valueAsNumber: true })}
+              className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.price ? 'border-red-300' : ''
+                }`}
+            />
+            {errors.price && <p className="mt-2 text-sm text-red-600">{errors.price.message}</p>}
+          </div>
+
+          <div className="col-span-6 sm:col-span-2">
+            <label htmlFor="duration" className="block text-sm font-medium text-gray-700">
+              Duration (Days) *
+            </label>
+            <input
+              type="number"
+              id="duration"
+              min="1"
+              {...register('duration', { valueAsNumber: true })}
+              className={`mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${errors.duration ? 'border-red-300' : ''
+                }`}
+            />
+            {errors.duration && <p className="mt-2 text-sm text-red-600">{errors.duration.message}</p>}
+          </div>
+
+          <div className="col-span-6 sm:col-span-2">
+            <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+              Category
+            </label>
+            <select
+              id="category"
+              {...register('category')}
+              className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="ADVENTURE">Adventure</option>
+              <option value="CULTURAL">Cultural</option>
+              <option value="NATURE">Nature</option>
+              <option value="LUXURY">Luxury</option>
+              <option value="BUDGET">Budget</option>
+            </select>
+          </div>
+
+          <div className="col-span-6 sm:col-span-3">
+            <label htmlFor="difficulty" className="block text-sm font-medium text-gray-700">
+              Difficulty Level
+            </label>
+            <select
+              id="difficulty"
+              {...register('difficulty')}
+              className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="EASY">Easy</option>
+              <option value="MODERATE">Moderate</option>
+              <option value="HARD">Hard</option>
+            </select>
+          </div>
+
+          <div className="col-span-6 sm:col-span-3">
+            <label htmlFor="status" className="block text-sm font-medium text-gray-700">
+              Status
+            </label>
+            <select
+              id="status"
+              {...register('status')}
+              className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="DRAFT">Draft</option>
+              <option value="PUBLISHED">Published</option>
+              <option value="ARCHIVED">Archived</option>
+            </select>
+            <p className="mt-2 text-xs text-gray-500">Only published packages can be booked in the app.</p>
+          </div>
+        </div>
+      </FormSection>
+
+      {/* Pricing Rules */}
+      <FormSection
+        title="Pricing Rules"
+        description="Seasonal prices, weekday adjustments and group discounts on top of the base price per person."
+      >
+        {isAvailable('pricingRules') ? (
+          <div className="space-y-4">
+            <PricingRulesEditor
+              rules={values.pricingRules}
+              onChange={(rules) => setValue('pricingRules', rules, { shouldDirty: true })}
+              errors={values.pricingRules.map((_, index) => {
+                const ruleErrors = errors.pricingRules?.[index];
+                return ruleErrors?.message || ruleErrors?.value?.message;
+              })}
+            />
+            <PriceCalendar basePrice={values.price} rules={values.pricingRules} />
+          </div>
+        ) : (
+          <UnavailableField />
+        )}
+      </FormSection>
+
+      {/* Gallery Images */}
+      <FormSection title="Gallery Images" description="Additional photos shown on the package page. Upload several at once, drag to reorder, or pick one as the cover.">
+        {isAvailable('images') ? (
+          <>
+            <GalleryManager
+              images={watch('images')}
+              onChange={(images) => setValue('images', images, { shouldDirty: true })}
+              coverImage={coverImage}
+              onSetCover={(url) => setValue('coverImage', url, { shouldDirty: true, shouldValidate: true })}
+              onUploadingChange={setUploadingGallery}
+            />
+            {errors.images && <p className="mt-2 text-sm text-red-600">All gallery images must be valid URLs</p>}
+          </>
+        ) : (
+          <UnavailableField />
+        )}
+      </FormSection>
+
+      {/* Tour Highlights */}
+      <FormSection title="Tour Highlights" description="Key features and attractions of this tour.">
+        {isAvailable('highlights') ? (
+          <StringListEditor
+            items={watch('highlights')}
+            onChange={(items) => setValue('highlights', items, { shouldDirty: true })}
+            placeholder="e.g., Visit ancient temples"
+            addLabel="+ Add Highlight"
+          />
+        ) : (
+          <UnavailableField />
+        )}
+      </FormSection>
+
+      {/* Itinerary */}
+      <FormSection title="Itinerary" description="Day-by-day plan for the tour, one entry per day of the duration.">
+        {isAvailable('itinerary') ? (
+          <>
+            <ItineraryEditor
+              days={watch('itinerary')}
+              duration={duration}
+              onChange={(days) => setValue('itinerary', days, { shouldDirty: true })}
+            />
+            {errors.itinerary && <p className="mt-2 text-sm text-red-600">{errors.itinerary.message}</p>}
+          </>
+        ) : (
+          <UnavailableField />
+        )}
+      </FormSection>
+
+      {/* What's Included */}
+      <FormSection title="What's Included" description="Services and items covered by the price.">
+        {isAvailable('included') ? (
+          <StringListEditor
+            items={watch('included')}
+            onChange={(items) => setValue('included', items, { shouldDirty: true })}
+            placeholder="e.g., Airport transfers"
+            addLabel="+ Add Included Item"
+          />
+        ) : (
+          <UnavailableField />
+        )}
+      </FormSection>
+
+      {/* Not Included */}
+      <FormSection title="Not Included" description="Costs the traveller pays separately.">
+        {isAvailable('excluded') ? (
+          <StringListEditor
+            items={watch('excluded')}
+            onChange={(items) => setValue('excluded', items, { shouldDirty: true })}
+            placeholder="e.g., International flights"
+            addLabel="+ Add Excluded Item"
+          />
+        ) : (
+          <UnavailableField />
+        )}
+      </FormSection>
+
+      {/* Actions */}
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={() => confirmLeaveForm(draftKey, isDirty) && onCancel()}
+          className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={loading || uploadingImage || uploadingGallery}
+          className={`inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white ${loading || uploadingImage || uploadingGallery
+            ? 'bg-gray-400 cursor-not-allowed'
+            : 'bg-indigo-600 hover:bg-indigo-700'
+            } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500`}
+        >
+          {loading ? submittingLabel : uploadingImage || uploadingGallery ? 'Uploading...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
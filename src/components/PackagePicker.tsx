@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { TourPackage } from '@/store/adminStore';
+
+interface PackagePickerProps {
+  id?: string;
+  value: string;
+  onChange: (packageId: string) => void;
+  packages: TourPackage[];
+  loading?: boolean;
+  hasError?: boolean;
+}
+
+export default function PackagePicker({
+  id,
+  value,
+  onChange,
+  packages,
+  loading = false,
+  hasError = false,
+}: PackagePickerProps) {
+  const [query, setQuery] = useState('');
+
+  const selectedPackage = packages.find((pkg) => pkg.id === value);
+  const normalizedQuery = query.trim().toLowerCase();
+  const matchingPackages = packages.filter(
+    (pkg) =>
+      !normalizedQuery ||
+      pkg.title.toLowerCase().includes(normalizedQuery) ||
+      pkg.locationName?.toLowerCase().includes(normalizedQuery)
+  );
+
+  return (
+    <div className="mt-1">
+      {selectedPackage ? (
+        <div className="flex items-center justify-between rounded-md border border-indigo-200 bg-indigo-50 px-3 py-2 text-sm">
+          <span className="truncate text-indigo-900">{selectedPackage.title}</span>
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="ml-2 text-indigo-600 hover:text-indigo-700 font-medium"
+          >
+            Change
+          </button>
+        </div>
+      ) : (
+        <>
+          {value && !loading && (
+            <p className="mb-2 text-sm text-red-600">
+              The current target ({value}) is not an existing package.
+            </p>
+          )}
+          <input
+            type="text"
+            id={id}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={`focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md ${hasError ? 'border-red-300' : ''
+              }`}
+            placeholder="Search packages by title or location"
+          />
+          <ul className="mt-1 max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+            {loading ? (
+              <li className="px-3 py-2 text-sm text-gray-500">Loading packages...</li>
+            ) : matchingPackages.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-gray-500">No packages found</li>
+            ) : (
+              matchingPackages.map((pkg) => (
+                <li key={pkg.id}>
+                  <button
+                    type="button"
+                    onClick={() => onChange(pkg.id)}
+                    className="w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+                  >
+                    <span className="block text-gray-900">{pkg.title}</span>
+                    {pkg.locationName && (
+                      <span className="block text-xs text-gray-500">{pkg.locationName}</span>
+                    )}
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
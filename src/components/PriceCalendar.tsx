@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { PricingRule } from '@/store/adminStore';
+import { WEEKDAY_LABELS, describePricingRule, getEffectivePrice, toDateKey } from '@/lib/pricing';
+import { getTotalPrice } from '@/lib/packageMapping';
+
+interface PriceCalendarProps {
+  basePrice: number;
+  rules: PricingRule[];
+}
+
+export default function PriceCalendar({ basePrice, rules }: PriceCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [guests, setGuests] = useState(1);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const validBasePrice = Number.isFinite(basePrice) ? basePrice : 0;
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const dates = Array.from(
+    { length: daysInMonth },
+    (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)
+  );
+  const selected = selectedDate && getEffectivePrice(validBasePrice, rules, selectedDate, guests);
+
+  const changeMonth = (offset: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+    setSelectedDate(null);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => changeMonth(-1)}
+          className="text-gray-500 hover:text-gray-700"
+          aria-label="Previous month"
+        >
+          ‹
+        </button>
+        <span className="text-sm font-medium text-gray-900">
+          {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </span>
+        <button
+          type="button"
+          onClick={() => changeMonth(1)}
+          className="text-gray-500 hover:text-gray-700"
+          aria-label="Next month"
+        >
+          ›
+        </button>
+      </div>
+
+      <label className="mt-2 flex items-center text-xs text-gray-600">
+        Guests
+        <input
+          type="number"
+          min="1"
+          value={guests}
+          onChange={(e) => setGuests(Math.max(1, parseInt(e.target.value) || 1))}
+          className="ml-2 w-20 focus:ring-indigo-500 focus:border-indigo-500 shadow-sm sm:text-sm border-gray-300 rounded-md"
+        />
+      </label>
+
+      <div className="mt-3 grid grid-cols-7 gap-1 text-center">
+        {WEEKDAY_LABELS.map((label) => (
+          <span key={label} className="text-xs font-medium text-gray-500">{label}</span>
+        ))}
+        {Array.from({ length: month.getDay() }, (_, i) => (
+          <span key={`blank-${i}`} />
+        ))}
+        {dates.map((date) => {
+          const dateKey = toDateKey(date);
+          const { pricePerPerson } = getEffectivePrice(validBasePrice, rules, dateKey, guests);
+          const adjusted = pricePerPerson !== validBasePrice;
+          return (
+            <button
+              key={dateKey}
+              type="button"
+              onClick={() => setSelectedDate(dateKey)}
+              className={`rounded p-1 text-xs ${selectedDate === dateKey
+                ? 'ring-2 ring-indigo-500'
+                : ''
+                } ${pricePerPerson > validBasePrice
+                  ? 'bg-red-50 text-red-800'
+                  : pricePerPerson < validBasePrice
+                    ? 'bg-green-50 text-green-800'
+                    : 'bg-gray-50 text-gray-700'
+                }`}
+            >
+              <span className="block font-medium">{date.getDate()}</span>
+              <span className={`block ${adjusted ? 'font-semibold' : ''}`}>${Math.round(pricePerPerson)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && selectedDate && (
+        <div className="mt-3 rounded-md bg-gray-50 p-3 text-sm">
+          <p className="font-medium text-gray-900">
+            {new Date(`${selectedDate}T00:00:00`).toLocaleDateString()}: ${selected.pricePerPerson.toFixed(2)} per person
+          </p>
+          {guests > 1 && (
+            <p className="text-gray-600">
+              ${getTotalPrice(selected.pricePerPerson, guests).toFixed(2)} total for {guests} guests
+            </p>
+          )}
+          {selected.appliedRules.length === 0 ? (
+            <p className="mt-1 text-gray-500">Base price, no rules apply.</p>
+          ) : (
+            <ul className="mt-1 list-disc list-inside text-gray-600">
+              {selected.appliedRules.map((rule) => (
+                <li key={rule.id}>
+                  {rule.name || 'Unnamed rule'}: {describePricingRule(rule)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
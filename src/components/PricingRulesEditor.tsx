@@ -0,0 +1,189 @@
+'use client';
+
+import React from 'react';
+import type { PricingRule } from '@/store/adminStore';
+import { moveItem } from '@/lib/arrayUtils';
+import { PRICING_RULE_KINDS, WEEKDAY_LABELS, newPricingRule } from '@/lib/pricing';
+
+interface PricingRulesEditorProps {
+  rules: PricingRule[];
+  onChange: (rules: PricingRule[]) => void;
+  errors?: (string | undefined)[];
+}
+
+const inputClassName =
+  'mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md';
+
+// Empty number inputs mean "no limit", so keep them undefined rather than 0
+const parseOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+export default function PricingRulesEditor({ rules, onChange, errors = [] }: PricingRulesEditorProps) {
+  const updateRule = (index: number, changes: Partial<PricingRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = rules[index].daysOfWeek || [];
+    updateRule(index, {
+      daysOfWeek: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Date-range rules apply first, then day-of-week, then group size. Within each kind the first matching rule wins.
+      </p>
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="border border-gray-200 rounded-md p-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">
+              {PRICING_RULE_KINDS.find((k) => k.value === rule.kind)?.label}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={() => onChange(moveItem(rules, index, index - 1))}
+                disabled={index === 0}
+                className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                aria-label="Move rule up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(moveItem(rules, index, index + 1))}
+                disabled={index === rules.length - 1}
+                className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                aria-label="Move rule down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700 text-sm"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-2 grid grid-cols-6 gap-3">
+            <div className="col-span-6 sm:col-span-2">
+              <span className="block text-xs font-medium text-gray-600">Name</span>
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+                className={inputClassName}
+                placeholder="e.g., Peak season"
+              />
+            </div>
+            <div className="col-span-3 sm:col-span-2">
+              <span className="block text-xs font-medium text-gray-600">Adjustment</span>
+              <select
+                value={rule.adjustmentType}
+                onChange={(e) => updateRule(index, { adjustmentType: e.target.value as PricingRule['adjustmentType'] })}
+                className={inputClassName}
+              >
+                <option value="PERCENT">Percent change</option>
+                <option value="PRICE">Fixed price per person</option>
+              </select>
+            </div>
+            <div className="col-span-3 sm:col-span-2">
+              <span className="block text-xs font-medium text-gray-600">
+                {rule.adjustmentType === 'PERCENT' ? 'Percent (negative for discounts)' : 'Price (USD)'}
+              </span>
+              <input
+                type="number"
+                step="0.01"
+                value={Number.isNaN(rule.value) ? '' : rule.value}
+                onChange={(e) => updateRule(index, { value: e.target.valueAsNumber })}
+                className={inputClassName}
+              />
+            </div>
+
+            {rule.kind === 'DATE_RANGE' && (
+              <>
+                <div className="col-span-3">
+                  <span className="block text-xs font-medium text-gray-600">From</span>
+                  <input
+                    type="date"
+                    value={rule.startDate || ''}
+                    onChange={(e) => updateRule(index, { startDate: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="col-span-3">
+                  <span className="block text-xs font-medium text-gray-600">Until</span>
+                  <input
+                    type="date"
+                    value={rule.endDate || ''}
+                    onChange={(e) => updateRule(index, { endDate: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </>
+            )}
+
+            {rule.kind === 'DAY_OF_WEEK' && (
+              <div className="col-span-6 flex flex-wrap gap-3">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={rule.daysOfWeek?.includes(day) || false}
+                      onChange={() => toggleDay(index, day)}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-1">{label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {rule.kind === 'GROUP_SIZE' && (
+              <>
+                <div className="col-span-3">
+                  <span className="block text-xs font-medium text-gray-600">Min guests</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={rule.minGuests ?? ''}
+                    onChange={(e) => updateRule(index, { minGuests: parseOptionalNumber(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="col-span-3">
+                  <span className="block text-xs font-medium text-gray-600">Max guests (optional)</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={rule.maxGuests ?? ''}
+                    onChange={(e) => updateRule(index, { maxGuests: parseOptionalNumber(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {errors[index] && <p className="mt-2 text-sm text-red-600">{errors[index]}</p>}
+        </div>
+      ))}
+
+      <div className="flex space-x-4">
+        {PRICING_RULE_KINDS.map((kind) => (
+          <button
+            key={kind.value}
+            type="button"
+            onClick={() => onChange([...rules, newPricingRule(kind.value)])}
+            className="text-indigo-600 hover:text-indigo-700 text-sm font-medium"
+          >
+            + {kind.label} rule
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
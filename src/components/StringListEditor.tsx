@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import { moveItem } from '@/lib/arrayUtils';
+
+interface StringListEditorProps {
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder?: string;
+  addLabel: string;
+  inputType?: 'text' | 'url';
+}
+
+export default function StringListEditor({
+  items,
+  onChange,
+  placeholder,
+  addLabel,
+  inputType = 'text',
+}: StringListEditorProps) {
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type={inputType}
+            value={item}
+            onChange={(e) => onChange(items.map((v, i) => (i === index ? e.target.value : v)))}
+            className="flex-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+            placeholder={placeholder}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(moveItem(items, index, index - 1))}
+            disabled={index === 0}
+            className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+            aria-label="Move up"
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(moveItem(items, index, index + 1))}
+            disabled={index === items.length - 1}
+            className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+            aria-label="Move down"
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            className="text-red-600 hover:text-red-700"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...items, ''])}
+        className="text-indigo-600 hover:text-indigo-700 text-sm font-medium"
+      >
+        {addLabel}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+export const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
+
+interface AuthHandlers {
+  getAccessToken: () => string | null;
+  refreshAccessToken: () => Promise<string>;
+  onAuthFailure: () => void;
+}
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+let authHandlers: AuthHandlers | null = null;
+let refreshPromise: Promise<string> | null = null;
+
+export const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+});
+
+// Skips unset filters so the API only receives the ones in use
+export const buildQueryParams = (query: object) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.append(key, value.toString());
+    }
+  });
+  return params;
+};
+
+// The store registers itself here so this module never imports it back
+export const configureApiClient = (handlers: AuthHandlers) => {
+  authHandlers = handlers;
+};
+
+// Every caller that hits a 401 while a refresh is running shares that refresh
+const refreshOnce = (handlers: AuthHandlers) => {
+  if (!refreshPromise) {
+    refreshPromise = handlers.refreshAccessToken().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+apiClient.interceptors.request.use(async (config) => {
+  if (!authHandlers) {
+    return config;
+  }
+
+  // Queue requests behind an in-flight refresh so they go out with the new token
+  if (refreshPromise) {
+    try {
+      await refreshPromise;
+    } catch {
+      // The refresh failure is reported by the request that triggered it
+    }
+  }
+
+  const token = authHandlers.getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+    if (
+      !authHandlers ||
+      !originalRequest ||
+      error.response?.status !== 401 ||
+      originalRequest._retry
+    ) {
+      return Promise.reject(error);
+    }
+
+    // Retry the original request once with a fresh access token
+    originalRequest._retry = true;
+    try {
+      const accessToken = await refreshOnce(authHandlers);
+      originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+      return apiClient(originalRequest);
+    } catch (refreshError) {
+      authHandlers.onAuthFailure();
+      return Promise.reject(refreshError);
+    }
+  }
+);
@@ -0,0 +1,7 @@
+export const moveItem = <T>(items: T[], from: number, to: number) => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
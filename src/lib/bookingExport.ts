@@ -0,0 +1,106 @@
+import type { Booking } from '@/store/adminStore';
+import { getPricePerPerson } from '@/lib/packageMapping';
+import writeXlsxFile from 'write-excel-file/browser';
+
+export type BookingExportFormat = 'csv' | 'xlsx';
+
+// Prices are stored and shown in US dollars throughout the dashboard
+const CURRENCY = 'USD';
+
+// Travel dates are calendar days; timestamps keep their time in UTC
+const toIsoDate = (value: string | null) => (value ? value.slice(0, 10) : null);
+const toIsoTimestamp = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+type ExportCell = string | number | null;
+
+interface BookingColumn {
+  header: string;
+  amount?: boolean;
+  value: (booking: Booking) => ExportCell;
+}
+
+const BOOKING_COLUMNS: BookingColumn[] = [
+  { header: 'Booking ID', value: (b) => b.id },
+  { header: 'Status', value: (b) => b.status },
+  { header: 'Contact Name', value: (b) => b.contactName },
+  { header: 'Contact Email', value: (b) => b.contactEmail },
+  { header: 'Contact Phone', value: (b) => b.contactPhone },
+  { header: 'Account Email', value: (b) => b.user.email },
+  { header: 'Account First Name', value: (b) => b.user.firstName },
+  { header: 'Account Last Name', value: (b) => b.user.lastName },
+  { header: 'Package', value: (b) => b.package.title },
+  { header: 'Package Location', value: (b) => b.package.locationName },
+  { header: 'Start Date', value: (b) => toIsoDate(b.startDate) },
+  { header: 'End Date', value: (b) => toIsoDate(b.endDate) },
+  { header: 'Guests', value: (b) => b.guests },
+  { header: 'Currency', value: () => CURRENCY },
+  { header: 'Package Price Per Person', amount: true, value: (b) => b.package.pricePerPerson },
+  { header: 'Charged Per Person', amount: true, value: (b) => getPricePerPerson(b.totalPrice, b.guests) },
+  { header: 'Total Price', amount: true, value: (b) => b.totalPrice },
+  { header: 'Applied Pricing Rules', value: (b) => b.appliedPricingRules?.join('; ') ?? null },
+  { header: 'Special Requests', value: (b) => b.specialRequests ?? null },
+  { header: 'Cancellation Reason', value: (b) => b.cancellationReason ?? null },
+  { header: 'Created At', value: (b) => toIsoTimestamp(b.createdAt) },
+  { header: 'Updated At', value: (b) => toIsoTimestamp(b.updatedAt) },
+];
+
+// Spreadsheet apps run CSV text starting with = or @ as a formula, and + or -
+// too unless a plain number follows, such as an international phone number
+const FORMULA_PATTERN = /^(?:[=@]|[+-](?![\d\s().-]*$))/;
+
+const toCsvField = (value: ExportCell, amount?: boolean) => {
+  if (value === null) return '';
+  if (typeof value === 'number') {
+    return amount ? value.toFixed(2) : value.toString();
+  }
+  const text = FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (bookings: Booking[]) => {
+  const lines = [
+    BOOKING_COLUMNS.map((column) => toCsvField(column.header)).join(','),
+    ...bookings.map((booking) =>
+      BOOKING_COLUMNS.map((column) => toCsvField(column.value(booking), column.amount)).join(',')
+    ),
+  ];
+  // The byte order mark makes Excel read the file as UTF-8
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+// Cells are typed, so text is never read as a formula and needs no escaping
+const toXlsx = (bookings: Booking[]) =>
+  writeXlsxFile(
+    [
+      BOOKING_COLUMNS.map((column) => ({ value: column.header, fontWeight: 'bold' as const })),
+      ...bookings.map((booking) =>
+        BOOKING_COLUMNS.map((column) => {
+          const value = column.value(booking);
+          if (value === null) return null;
+          return typeof value === 'number'
+            ? { value, type: Number, format: column.amount ? '0.00' : undefined }
+            : { value, type: String };
+        })
+      ),
+    ],
+    { sheet: 'Bookings', stickyRowsCount: 1 }
+  ).toBlob();
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportBookings = async (bookings: Booking[], format: BookingExportFormat) => {
+  const blob = format === 'csv' ? toCsv(bookings) : await toXlsx(bookings);
+  downloadBlob(blob, `bookings-${new Date().toISOString().slice(0, 10)}.${format}`);
+};
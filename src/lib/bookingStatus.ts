@@ -0,0 +1,45 @@
+import type { BookingStatus } from '@/store/adminStore';
+
+// Every status change an admin may make; COMPLETED and CANCELLED are final
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+export const BOOKING_STATUS_ACTION_LABELS: Record<BookingStatus, string> = {
+  PENDING: 'Mark pending',
+  CONFIRMED: 'Confirm',
+  COMPLETED: 'Complete',
+  CANCELLED: 'Cancel',
+};
+
+export const getNextBookingStatuses = (status: BookingStatus) => BOOKING_STATUS_TRANSITIONS[status];
+
+export const canTransitionBooking = (from: BookingStatus, to: BookingStatus) =>
+  BOOKING_STATUS_TRANSITIONS[from].includes(to);
+
+// Asks for the reason a cancellation needs; null means the admin backed out
+export const promptCancellationReason = (message = 'Why is this booking being cancelled?') => {
+  const reason = prompt(message);
+  if (reason === null) return null;
+  if (!reason.trim()) {
+    alert('A cancellation reason is required.');
+    return null;
+  }
+  return reason.trim();
+};
+
+export const getBookingStatusColor = (status: BookingStatus) => {
+  switch (status) {
+    case 'CONFIRMED':
+      return 'bg-green-100 text-green-800';
+    case 'COMPLETED':
+      return 'bg-blue-100 text-blue-800';
+    case 'CANCELLED':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
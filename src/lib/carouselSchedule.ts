@@ -0,0 +1,31 @@
+import type { CarouselItem } from '@/store/adminStore';
+
+export type CarouselScheduleStatus = 'scheduled' | 'live' | 'expired';
+
+export const hasCarouselSchedule = (
+  item: Pick<CarouselItem, 'activeFrom' | 'activeUntil'>
+) => !!(item.activeFrom || item.activeUntil);
+
+export const getCarouselScheduleStatus = (
+  item: Pick<CarouselItem, 'activeFrom' | 'activeUntil'>,
+  now: Date = new Date()
+): CarouselScheduleStatus => {
+  if (item.activeFrom && new Date(item.activeFrom) > now) {
+    return 'scheduled';
+  }
+  if (item.activeUntil && new Date(item.activeUntil) <= now) {
+    return 'expired';
+  }
+  return 'live';
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export const toDateTimeLocalValue = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocalValue = (value: string) =>
+  value ? new Date(value).toISOString() : null;
@@ -0,0 +1,68 @@
+import type { Booking, BookingStatus, Departure } from '@/store/adminStore';
+
+// Pending bookings hold their seats until they are confirmed or cancelled
+export const SEAT_HOLDING_STATUSES: BookingStatus[] = ['PENDING', 'CONFIRMED'];
+
+let nextDepartureId = 0;
+
+export const newDeparture = (): Departure => ({
+  id: `departure-${Date.now()}-${nextDepartureId++}`,
+  date: '',
+  capacity: 10,
+  guideName: '',
+});
+
+// Booking dates come back as ISO timestamps; the UTC date is the day that was booked
+export const getBookingDateKey = (booking: Pick<Booking, 'startDate'>) =>
+  booking.startDate.slice(0, 10);
+
+export interface DepartureOccupancy {
+  bookings: Booking[];
+  bookedSeats: number;
+  seatsRemaining: number;
+  // Bookings that took the departure past capacity, in the order they were made
+  overbookingIds: string[];
+}
+
+export const getDepartureOccupancy = (
+  departure: Departure,
+  bookings: Booking[]
+): DepartureOccupancy => {
+  const holding = bookings
+    .filter(
+      (booking) =>
+        SEAT_HOLDING_STATUSES.includes(booking.status) &&
+        getBookingDateKey(booking) === departure.date
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  let bookedSeats = 0;
+  const overbookingIds: string[] = [];
+  holding.forEach((booking) => {
+    bookedSeats += booking.guests;
+    if (bookedSeats > departure.capacity) {
+      overbookingIds.push(booking.id);
+    }
+  });
+
+  return {
+    bookings: holding,
+    bookedSeats,
+    seatsRemaining: departure.capacity - bookedSeats,
+    overbookingIds,
+  };
+};
+
+// Checked against the other departures too, since two cannot share a start date
+export const getDepartureIssue = (departure: Departure, departures: Departure[]): string | null => {
+  if (!departure.date) {
+    return 'Choose a date';
+  }
+  if (!Number.isInteger(departure.capacity) || departure.capacity < 1) {
+    return 'Capacity must be a whole number of at least 1';
+  }
+  if (departures.some((d) => d.id !== departure.id && d.date === departure.date)) {
+    return 'Another departure already starts on this date';
+  }
+  return null;
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+
+const DRAFT_KEY_PREFIX = 'form-draft';
+const AUTOSAVE_DELAY_MS = 1000;
+
+export interface FormDraft<T> {
+  values: T;
+  savedAt: string;
+}
+
+// One slot per form and record, e.g. formDraftKey('package', id) or formDraftKey('carousel')
+export const formDraftKey = (form: string, recordId?: string) =>
+  `${DRAFT_KEY_PREFIX}:${form}:${recordId || 'new'}`;
+
+export const loadFormDraft = <T>(key: string): FormDraft<T> | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as FormDraft<T>) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveFormDraft = <T>(key: string, values: T) => {
+  const draft: FormDraft<T> = { values, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(key, JSON.stringify(draft));
+  } catch (error) {
+    console.error('Error saving form draft:', error);
+  }
+};
+
+export const clearFormDraft = (key: string) => {
+  localStorage.removeItem(key);
+};
+
+// Leaving on purpose also drops the autosaved copy of the changes being discarded
+export const confirmLeaveForm = (key: string, dirty: boolean) => {
+  if (!dirty) return true;
+  if (!confirm('You have unsaved changes. Leave this page and discard them?')) return false;
+  clearFormDraft(key);
+  return true;
+};
+
+interface UseFormDraftOptions {
+  dirty: boolean;
+  // Wait until the form holds its loaded values before offering or saving a draft
+  enabled?: boolean;
+}
+
+export function useFormDraft<T>(key: string, values: T, { dirty, enabled = true }: UseFormDraftOptions) {
+  const [draft, setDraft] = useState<FormDraft<T> | null>(null);
+  const [checked, setChecked] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || checked) return;
+    setDraft(loadFormDraft<T>(key));
+    setChecked(true);
+  }, [enabled, checked, key]);
+
+  // Hold off while a stored draft is on offer so typing does not overwrite it unseen
+  useEffect(() => {
+    if (!enabled || !checked || draft || !dirty) return;
+    const timeout = setTimeout(() => saveFormDraft(key, values), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [enabled, checked, draft, dirty, key, values]);
+
+  useEffect(() => {
+    if (!dirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+
+  const restoreDraft = () => {
+    setDraft(null);
+    return draft?.values;
+  };
+
+  const discardDraft = () => {
+    clearFormDraft(key);
+    setDraft(null);
+  };
+
+  return { draft, restoreDraft, discardDraft };
+}
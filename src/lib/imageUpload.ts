@@ -0,0 +1,112 @@
+import { API_BASE_URL, apiClient } from '@/lib/apiClient';
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const MAX_IMAGE_SIZE_BYTES =
+  Number(process.env.NEXT_PUBLIC_IMAGE_MAX_SIZE_MB || 5) * 1024 * 1024;
+
+export const MAX_IMAGE_WIDTH = Number(process.env.NEXT_PUBLIC_IMAGE_MAX_WIDTH || 1920);
+
+// Canvas drops animation frames, so GIFs are uploaded as-is
+const RESIZABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const RESIZE_QUALITY = 0.85;
+
+export interface UploadedImage {
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  mimeType: string;
+}
+
+interface UploadImageOptions {
+  onProgress?: (percent: number) => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Returns a user-facing message, or null when the file can be uploaded
+export const validateImageFile = (file: File): string | null => {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported image type (JPEG, PNG, WebP or GIF)`;
+  }
+  return null;
+};
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('Failed to read image'));
+    };
+    image.src = objectUrl;
+  });
+
+const downscaleImage = async (file: File) => {
+  const image = await loadImage(file);
+  const { naturalWidth: width, naturalHeight: height } = image;
+
+  if (width <= MAX_IMAGE_WIDTH || !RESIZABLE_IMAGE_TYPES.includes(file.type)) {
+    return { blob: file as Blob, width, height };
+  }
+
+  const scaledHeight = Math.round((height * MAX_IMAGE_WIDTH) / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = MAX_IMAGE_WIDTH;
+  canvas.height = scaledHeight;
+  canvas.getContext('2d')?.drawImage(image, 0, 0, MAX_IMAGE_WIDTH, scaledHeight);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, file.type, RESIZE_QUALITY)
+  );
+  if (!blob) {
+    throw new Error('Failed to resize image');
+  }
+  return { blob, width: MAX_IMAGE_WIDTH, height: scaledHeight };
+};
+
+export const uploadImage = async (
+  file: File,
+  { onProgress }: UploadImageOptions = {}
+): Promise<UploadedImage> => {
+  const validationError = validateImageFile(file);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const { blob, width, height } = await downscaleImage(file);
+  if (blob.size > MAX_IMAGE_SIZE_BYTES) {
+    throw new Error(
+      `${file.name} is ${formatMegabytes(blob.size)}; the limit is ${formatMegabytes(MAX_IMAGE_SIZE_BYTES)}`
+    );
+  }
+
+  const formData = new FormData();
+  formData.append('image', blob, file.name);
+
+  try {
+    const response = await apiClient.post('/upload/image', formData, {
+      onUploadProgress: (event) => {
+        if (event.total) {
+          onProgress?.(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+    return {
+      url: `${API_BASE_URL}${response.data.data.url}`,
+      width,
+      height,
+      size: blob.size,
+      mimeType: blob.type || file.type,
+    };
+  } catch (error) {
+    console.error('Error uploading image:', error);
+    throw new Error('Failed to upload image');
+  }
+};
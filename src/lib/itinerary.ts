@@ -0,0 +1,62 @@
+import type { ItineraryDay, ItineraryMeal } from '@/store/adminStore';
+
+export const ITINERARY_MEALS: ItineraryMeal[] = ['BREAKFAST', 'LUNCH', 'DINNER'];
+
+export const emptyItineraryDay = (day: number): ItineraryDay => ({ day, title: '', description: '' });
+
+export const isBlankItineraryDay = (day: ItineraryDay) =>
+  !day.title.trim() &&
+  !day.description.trim() &&
+  !day.meals?.length &&
+  !day.accommodation?.trim() &&
+  !day.activities?.some((activity) => activity.trim());
+
+// Day numbers always follow list position, so renumber after every change
+export const renumberItinerary = (days: ItineraryDay[]) =>
+  days.map((day, index) => ({ ...day, day: index + 1 }));
+
+// Pads to the package duration and drops trailing blank days beyond it. Days
+// with content are never dropped; they are reported by getItineraryIssues instead.
+export const resizeItinerary = (days: ItineraryDay[], duration: number) => {
+  let next = days;
+  while (next.length > duration && isBlankItineraryDay(next[next.length - 1])) {
+    next = next.slice(0, -1);
+  }
+  if (next.length < duration) {
+    next = [
+      ...next,
+      ...Array.from({ length: duration - next.length }, (_, i) => emptyItineraryDay(next.length + i + 1)),
+    ];
+  }
+  return next;
+};
+
+// An entirely blank itinerary is allowed; once started, every day must be covered exactly once
+export const getItineraryIssues = (days: ItineraryDay[], duration: number) => {
+  if (days.every(isBlankItineraryDay)) {
+    return [];
+  }
+
+  const issues: string[] = [];
+  const counts = new Map<number, number>();
+  days.forEach((day) => counts.set(day.day, (counts.get(day.day) || 0) + 1));
+
+  const duplicated = [...counts.entries()].filter(([, count]) => count > 1).map(([day]) => day);
+  if (duplicated.length > 0) {
+    issues.push(`Duplicated days: ${duplicated.join(', ')}`);
+  }
+
+  const missing = Array.from({ length: duration }, (_, i) => i + 1).filter(
+    (dayNumber) => !days.some((day) => day.day === dayNumber && day.title.trim())
+  );
+  if (missing.length > 0) {
+    issues.push(`Missing days: ${missing.join(', ')}`);
+  }
+
+  const extra = days.filter((day) => day.day > duration).map((day) => day.day);
+  if (extra.length > 0) {
+    issues.push(`Days beyond the ${duration}-day duration: ${extra.join(', ')}`);
+  }
+
+  return issues;
+};
@@ -0,0 +1,46 @@
+import type { CarouselItem, Review, TourPackage } from '@/store/adminStore';
+
+export type MediaUsageType = 'package cover' | 'gallery' | 'carousel' | 'review';
+
+export interface MediaUsage {
+  type: MediaUsageType;
+  label: string;
+  href: string;
+}
+
+interface MediaUsageSources {
+  packages: TourPackage[];
+  carouselItems: CarouselItem[];
+  reviews: Review[];
+}
+
+// Maps each image URL to every place that references it
+export const buildMediaUsageIndex = ({ packages, carouselItems, reviews }: MediaUsageSources) => {
+  const index = new Map<string, MediaUsage[]>();
+  const addUsage = (url: string | undefined, usage: MediaUsage) => {
+    if (!url) return;
+    index.set(url, [...(index.get(url) || []), usage]);
+  };
+
+  packages.forEach((pkg) => {
+    const href = `/packages/${pkg.id}/edit`;
+    addUsage(pkg.coverImage, { type: 'package cover', label: pkg.title, href });
+    pkg.images?.forEach((url) => addUsage(url, { type: 'gallery', label: pkg.title, href }));
+  });
+
+  carouselItems.forEach((item) => {
+    addUsage(item.imageUrl, { type: 'carousel', label: item.title, href: `/carousel/${item.id}/edit` });
+  });
+
+  reviews.forEach((review) => {
+    review.images?.forEach((url) =>
+      addUsage(url, {
+        type: 'review',
+        label: `${review.user.firstName} ${review.user.lastName} on ${review.package.title}`,
+        href: '/reviews',
+      })
+    );
+  });
+
+  return index;
+};
@@ -0,0 +1,51 @@
+import type { PackagePayload, TourPackage } from '@/store/adminStore';
+import type { PackageFormValues } from '@/lib/packageSchema';
+
+// The form and the API name a few fields differently. Keep every field listed
+// explicitly here so a rename on either side fails to compile instead of
+// silently leaving a field blank.
+
+export const toPackageFormValues = (pkg: TourPackage): PackageFormValues => ({
+  title: pkg.title,
+  description: pkg.description,
+  location: pkg.locationName,
+  price: pkg.pricePerPerson,
+  duration: pkg.duration,
+  category: pkg.category as PackageFormValues['category'],
+  difficulty: pkg.difficulty as PackageFormValues['difficulty'],
+  status: pkg.status,
+  coverImage: pkg.coverImage || '',
+  images: pkg.images || [],
+  highlights: pkg.highlights || [],
+  itinerary: pkg.itinerary || [],
+  included: pkg.included || [],
+  excluded: pkg.excluded || [],
+  pricingRules: pkg.pricingRules || [],
+});
+
+export const toPackagePayload = (values: PackageFormValues): PackagePayload => ({
+  title: values.title,
+  description: values.description,
+  locationName: values.location,
+  pricePerPerson: values.price,
+  duration: values.duration,
+  category: values.category,
+  difficulty: values.difficulty,
+  status: values.status,
+  coverImage: values.coverImage,
+  images: values.images,
+  highlights: values.highlights,
+  itinerary: values.itinerary,
+  included: values.included,
+  excluded: values.excluded,
+  pricingRules: values.pricingRules,
+});
+
+// Round to cents so per-person and total prices stay consistent
+const roundPrice = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getTotalPrice = (pricePerPerson: number, guests: number) =>
+  roundPrice(pricePerPerson * guests);
+
+export const getPricePerPerson = (totalPrice: number, guests: number) =>
+  guests > 0 ? roundPrice(totalPrice / guests) : totalPrice;
@@ -0,0 +1,127 @@
+import * as yup from 'yup';
+import type { ItineraryDay, ItineraryMeal, PackageStatus, PricingRule, PricingRuleKind } from '@/store/adminStore';
+import { ITINERARY_MEALS, emptyItineraryDay, getItineraryIssues, isBlankItineraryDay } from '@/lib/itinerary';
+import { PRICING_RULE_KINDS, getPricingRuleIssue } from '@/lib/pricing';
+
+export const PACKAGE_CATEGORIES = ['ADVENTURE', 'CULTURAL', 'NATURE', 'LUXURY', 'BUDGET'] as const;
+export const PACKAGE_DIFFICULTIES = ['EASY', 'MODERATE', 'HARD'] as const;
+export const PACKAGE_STATUSES: PackageStatus[] = ['DRAFT', 'PUBLISHED', 'ARCHIVED'];
+
+export type PackageCategory = (typeof PACKAGE_CATEGORIES)[number];
+export type PackageDifficulty = (typeof PACKAGE_DIFFICULTIES)[number];
+
+export interface PackageFormValues {
+  title: string;
+  description: string;
+  location: string;
+  price: number;
+  duration: number;
+  category: PackageCategory;
+  difficulty: PackageDifficulty;
+  status: PackageStatus;
+  coverImage: string;
+  images: string[];
+  highlights: string[];
+  itinerary: ItineraryDay[];
+  included: string[];
+  excluded: string[];
+  pricingRules: PricingRule[];
+}
+
+export type PackageListField = 'images' | 'highlights' | 'itinerary' | 'included' | 'excluded' | 'pricingRules';
+
+export const PACKAGE_LIST_FIELDS: PackageListField[] = [
+  'images',
+  'highlights',
+  'itinerary',
+  'included',
+  'excluded',
+  'pricingRules',
+];
+
+export const emptyPackageForm: PackageFormValues = {
+  title: '',
+  description: '',
+  location: '',
+  price: 0,
+  duration: 1,
+  category: 'ADVENTURE',
+  difficulty: 'EASY',
+  status: 'DRAFT',
+  coverImage: '',
+  images: [],
+  highlights: [],
+  itinerary: [emptyItineraryDay(1)],
+  included: [],
+  excluded: [],
+  pricingRules: [],
+};
+
+export const packageSchema: yup.ObjectSchema<PackageFormValues> = yup.object({
+  title: yup.string().required('Title is required').min(3, 'Title must be at least 3 characters'),
+  description: yup.string().required('Description is required').min(10, 'Description must be at least 10 characters'),
+  location: yup.string().required('Location is required'),
+  price: yup.number().typeError('Price is required').required('Price is required').min(0.01, 'Price must be greater than 0'),
+  duration: yup.number().typeError('Duration is required').required('Duration is required').min(1, 'Duration must be at least 1 day'),
+  category: yup.mixed<PackageCategory>().oneOf(PACKAGE_CATEGORIES).required(),
+  difficulty: yup.mixed<PackageDifficulty>().oneOf(PACKAGE_DIFFICULTIES).required(),
+  status: yup.mixed<PackageStatus>().oneOf(PACKAGE_STATUSES).required(),
+  coverImage: yup.string().url('Must be a valid URL').defined(),
+  images: yup.array(yup.string().url('Must be a valid URL').defined()).defined(),
+  highlights: yup.array(yup.string().defined()).defined(),
+  itinerary: yup
+    .array(
+      yup.object({
+        day: yup.number().required(),
+        title: yup.string().defined(),
+        description: yup.string().defined(),
+        meals: yup.array(yup.mixed<ItineraryMeal>().oneOf(ITINERARY_MEALS).defined()).optional(),
+        accommodation: yup.string().optional(),
+        activities: yup.array(yup.string().defined()).optional(),
+      })
+    )
+    .defined()
+    .test('complete-days', function (days) {
+      const issues = getItineraryIssues(days, this.parent.duration);
+      return issues.length === 0 || this.createError({ message: issues.join('. ') });
+    }),
+  included: yup.array(yup.string().defined()).defined(),
+  excluded: yup.array(yup.string().defined()).defined(),
+  pricingRules: yup
+    .array(
+      yup
+        .object({
+          id: yup.string().required(),
+          name: yup.string().defined(),
+          kind: yup.mixed<PricingRuleKind>().oneOf(PRICING_RULE_KINDS.map((k) => k.value)).required(),
+          adjustmentType: yup.mixed<PricingRule['adjustmentType']>().oneOf(['PERCENT', 'PRICE']).required(),
+          value: yup.number().typeError('Enter an adjustment').required('Enter an adjustment'),
+          startDate: yup.string().optional(),
+          endDate: yup.string().optional(),
+          daysOfWeek: yup.array(yup.number().defined()).optional(),
+          minGuests: yup.number().optional(),
+          maxGuests: yup.number().optional(),
+        })
+        .test('valid-rule', function (rule) {
+          const issue = getPricingRuleIssue(rule as PricingRule);
+          return !issue || this.createError({ message: issue });
+        })
+    )
+    .defined(),
+});
+
+// Drop the blank rows editors leave behind and keep day numbers contiguous
+export const cleanPackageFormValues = (values: PackageFormValues): PackageFormValues => ({
+  ...values,
+  images: values.images.filter((url) => url.trim()),
+  highlights: values.highlights.filter((h) => h.trim()),
+  itinerary: values.itinerary
+    .filter((day) => !isBlankItineraryDay(day))
+    .map((day, index) => ({
+      ...day,
+      day: index + 1,
+      activities: day.activities?.filter((activity) => activity.trim()),
+    })),
+  included: values.included.filter((item) => item.trim()),
+  excluded: values.excluded.filter((item) => item.trim()),
+});
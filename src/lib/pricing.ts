@@ -0,0 +1,105 @@
+import type { PricingRule, PricingRuleKind } from '@/store/adminStore';
+
+export const PRICING_RULE_KINDS: { value: PricingRuleKind; label: string }[] = [
+  { value: 'DATE_RANGE', label: 'Date range' },
+  { value: 'DAY_OF_WEEK', label: 'Day of week' },
+  { value: 'GROUP_SIZE', label: 'Group size' },
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Kinds apply in this order; within a kind the first matching rule wins
+const KIND_ORDER: PricingRuleKind[] = ['DATE_RANGE', 'DAY_OF_WEEK', 'GROUP_SIZE'];
+
+let nextRuleId = 0;
+
+export const newPricingRule = (kind: PricingRuleKind): PricingRule => ({
+  id: `rule-${Date.now()}-${nextRuleId++}`,
+  name: '',
+  kind,
+  adjustmentType: 'PERCENT',
+  value: 0,
+  ...(kind === 'DATE_RANGE' && { startDate: '', endDate: '' }),
+  ...(kind === 'DAY_OF_WEEK' && { daysOfWeek: [] }),
+  ...(kind === 'GROUP_SIZE' && { minGuests: 1 }),
+});
+
+// Dates are plain YYYY-MM-DD strings so comparisons ignore time zones
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const matchesRule = (rule: PricingRule, dateKey: string, guests: number) => {
+  switch (rule.kind) {
+    case 'DATE_RANGE':
+      return !!rule.startDate && !!rule.endDate && rule.startDate <= dateKey && dateKey <= rule.endDate;
+    case 'DAY_OF_WEEK':
+      return !!rule.daysOfWeek?.includes(new Date(`${dateKey}T00:00:00`).getDay());
+    case 'GROUP_SIZE':
+      return guests >= (rule.minGuests ?? 1) && (rule.maxGuests === undefined || guests <= rule.maxGuests);
+  }
+};
+
+const applyRule = (price: number, rule: PricingRule) =>
+  rule.adjustmentType === 'PRICE' ? rule.value : price * (1 + rule.value / 100);
+
+export const getEffectivePrice = (
+  basePrice: number,
+  rules: PricingRule[],
+  dateKey: string,
+  guests = 1
+) => {
+  const appliedRules: PricingRule[] = [];
+  let pricePerPerson = basePrice;
+
+  KIND_ORDER.forEach((kind) => {
+    const rule = rules.find((r) => r.kind === kind && matchesRule(r, dateKey, guests));
+    if (rule) {
+      pricePerPerson = applyRule(pricePerPerson, rule);
+      appliedRules.push(rule);
+    }
+  });
+
+  return { pricePerPerson: Math.round(pricePerPerson * 100) / 100, appliedRules };
+};
+
+export const describePricingRule = (rule: PricingRule) => {
+  const adjustment = rule.adjustmentType === 'PRICE'
+    ? `$${rule.value} per person`
+    : `${rule.value >= 0 ? '+' : ''}${rule.value}%`;
+
+  switch (rule.kind) {
+    case 'DATE_RANGE':
+      return `${adjustment} from ${rule.startDate || '?'} to ${rule.endDate || '?'}`;
+    case 'DAY_OF_WEEK':
+      return `${adjustment} on ${(rule.daysOfWeek || []).map((d) => WEEKDAY_LABELS[d]).join(', ') || '?'}`;
+    case 'GROUP_SIZE':
+      return `${adjustment} for ${rule.minGuests ?? 1}${rule.maxGuests ? `-${rule.maxGuests}` : '+'} guests`;
+  }
+};
+
+// Shown under the rule in the editor and checked by the package schema; null once the rule is complete
+export const getPricingRuleIssue = (rule: PricingRule): string | null => {
+  if (!rule.name.trim()) {
+    return 'Give the rule a name';
+  }
+  if (rule.adjustmentType === 'PRICE' && rule.value <= 0) {
+    return 'A fixed price must be greater than 0';
+  }
+  if (rule.adjustmentType === 'PERCENT' && rule.value <= -100) {
+    return 'A discount must be less than 100%';
+  }
+  switch (rule.kind) {
+    case 'DATE_RANGE':
+      if (!rule.startDate || !rule.endDate) return 'Choose a start and end date';
+      if (rule.startDate > rule.endDate) return 'The end date must be on or after the start date';
+      return null;
+    case 'DAY_OF_WEEK':
+      return rule.daysOfWeek?.length ? null : 'Choose at least one day';
+    case 'GROUP_SIZE':
+      if (!rule.minGuests || rule.minGuests < 1) return 'Minimum guests must be at least 1';
+      if (rule.maxGuests !== undefined && rule.maxGuests < rule.minGuests) {
+        return 'Maximum guests must be at least the minimum';
+      }
+      return null;
+  }
+};
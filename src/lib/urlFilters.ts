@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// List filters kept in the URL so a filtered view can be bookmarked and shared.
+// The free-text search box updates the URL after a short pause in typing.
+export function useUrlFilters(path: string, searchKey = 'query') {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const search = searchParams.get(searchKey) || '';
+
+  const [searchInput, setSearchInput] = useState(search);
+  const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancelPendingSearch = () => {
+    if (searchTimeout.current) {
+      clearTimeout(searchTimeout.current);
+      searchTimeout.current = null;
+    }
+  };
+
+  const updateSearchParams = (updates: Record<string, string | number>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === '') {
+        params.delete(key);
+      } else {
+        params.set(key, value.toString());
+      }
+    });
+    // Any filter change invalidates the current page
+    if (!('page' in updates)) {
+      params.delete('page');
+    }
+    router.replace(`${path}?${params}`);
+  };
+
+  // Keep the search box in step with back/forward navigation
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  useEffect(() => () => {
+    if (searchTimeout.current) {
+      clearTimeout(searchTimeout.current);
+    }
+  }, []);
+
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    cancelPendingSearch();
+    searchTimeout.current = setTimeout(() => {
+      updateSearchParams({ [searchKey]: value.trim() });
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  const clearFilters = () => {
+    cancelPendingSearch();
+    setSearchInput('');
+    router.replace(path);
+  };
+
+  return { searchParams, updateSearchParams, searchInput, handleSearchChange, clearFilters };
+}
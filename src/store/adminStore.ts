@@ -3,6 +3,8 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import axios from 'axios';
+import { API_BASE_URL, apiClient, buildQueryParams, configureApiClient } from '@/lib/apiClient';
+import { canTransitionBooking } from '@/lib/bookingStatus';
 
 interface HealthData {
   status: string;
@@ -24,22 +26,81 @@ interface AuthResponse {
   user: User;
 }
 
-interface TourPackage {
+export type ItineraryMeal = 'BREAKFAST' | 'LUNCH' | 'DINNER';
+
+export interface ItineraryDay {
+  day: number;
+  title: string;
+  description: string;
+  meals?: ItineraryMeal[];
+  accommodation?: string;
+  activities?: string[];
+}
+
+export type PricingRuleKind = 'DATE_RANGE' | 'DAY_OF_WEEK' | 'GROUP_SIZE';
+
+export interface PricingRule {
+  id: string;
+  name: string;
+  kind: PricingRuleKind;
+  // PERCENT changes the per-person price by value %, PRICE replaces it with value
+  adjustmentType: 'PERCENT' | 'PRICE';
+  value: number;
+  startDate?: string;
+  endDate?: string;
+  daysOfWeek?: number[];
+  minGuests?: number;
+  maxGuests?: number;
+}
+
+export type PackageStatus = 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+
+// A scheduled start date; bookings belong to it when their startDate falls on date
+export interface Departure {
+  id: string;
+  date: string;
+  capacity: number;
+  guideName?: string;
+}
+
+export interface TourPackage {
   id: string;
   title: string;
   description: string;
   locationName: string;
-  price: number;
+  pricePerPerson: number;
   duration: number;
   category: string;
   difficulty: string;
+  status: PackageStatus;
+  bookingsCount?: number;
   rating?: number;
   coverImage?: string;
+  images?: string[];
+  highlights?: string[];
+  itinerary?: ItineraryDay[];
+  included?: string[];
+  excluded?: string[];
+  pricingRules?: PricingRule[];
+  departures?: Departure[];
   createdAt: string;
   updatedAt: string;
 }
 
-interface Review {
+// Fields the API accepts when creating or updating a package
+export type PackagePayload = Omit<TourPackage, 'id' | 'bookingsCount' | 'rating' | 'createdAt' | 'updatedAt'>;
+
+export interface PackagesQuery {
+  page?: number;
+  limit?: number;
+  query?: string;
+  category?: string;
+  difficulty?: string;
+  status?: string;
+  sort?: string;
+}
+
+export interface Review {
   id: string;
   rating: number;
   comment?: string;
@@ -59,6 +120,91 @@ interface Review {
   };
 }
 
+export type BookingStatus = 'PENDING' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED';
+
+// One entry per confirm, complete or cancel, recorded by the API
+export interface BookingStatusChange {
+  status: BookingStatus;
+  changedAt: string;
+  reason?: string;
+  changedBy?: {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+  };
+}
+
+// Date bounds are inclusive YYYY-MM-DD strings; query searches contact name, email and phone
+export interface BookingsQuery {
+  page?: number;
+  limit?: number;
+  status?: string;
+  packageId?: string;
+  startDateFrom?: string;
+  startDateTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  query?: string;
+}
+
+export interface Booking {
+  id: string;
+  startDate: string;
+  endDate: string | null;
+  guests: number;
+  totalPrice: number;
+  status: BookingStatus;
+  contactName: string;
+  contactEmail: string;
+  contactPhone: string;
+  specialRequests?: string;
+  // Names of the pricing rules applied when totalPrice was calculated
+  appliedPricingRules?: string[];
+  statusHistory?: BookingStatusChange[];
+  cancellationReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  user: {
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+  package: Pick<TourPackage, 'title' | 'locationName' | 'pricePerPerson'>;
+}
+
+export interface CarouselItem {
+  id: string;
+  title: string;
+  description: string;
+  imageUrl: string;
+  actionType: 'INTERNAL' | 'EXTERNAL';
+  actionValue: string;
+  isActive: boolean;
+  sortOrder: number;
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MediaAsset {
+  id: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
 interface ReviewsResponse {
   data: Review[];
   pagination: {
@@ -85,21 +231,26 @@ interface AdminState {
 
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
-  refreshAccessToken: () => Promise<void>;
+  refreshAccessToken: () => Promise<string>;
   checkAuthStatus: () => boolean;
 
   // Packages
   packages: TourPackage[];
   packagesLoading: boolean;
   packagesError: string | null;
-  fetchPackages: () => Promise<void>;
+  packagesPagination: Pagination | null;
+  packagesQuery: PackagesQuery;
+  fetchPackages: (query?: PackagesQuery) => Promise<void>;
+  // The whole catalogue, for pickers and target checks that cannot work from one page
+  allPackages: TourPackage[];
+  allPackagesLoading: boolean;
+  allPackagesError: string | null;
+  fetchAllPackages: () => Promise<void>;
   fetchPackageById: (id: string) => Promise<TourPackage | null>;
-  createPackage: (
-    packageData: Omit<TourPackage, 'id' | 'createdAt' | 'updatedAt'>
-  ) => Promise<void>;
+  createPackage: (packageData: PackagePayload) => Promise<void>;
   updatePackage: (
     id: string,
-    packageData: Partial<TourPackage>
+    packageData: Partial<PackagePayload>
   ) => Promise<void>;
   deletePackage: (id: string) => Promise<void>;
 
@@ -118,6 +269,11 @@ interface AdminState {
     limit?: number,
     verified?: boolean
   ) => Promise<void>;
+  // Every review across all pages, for usage checks that cannot work from one page
+  allReviews: Review[];
+  allReviewsLoading: boolean;
+  allReviewsError: string | null;
+  fetchAllReviewPages: () => Promise<void>;
   fetchPackageReviews: (
     packageId: string,
     page?: number,
@@ -125,10 +281,90 @@ interface AdminState {
   ) => Promise<void>;
   approveReview: (reviewId: string) => Promise<void>;
   deleteReview: (reviewId: string) => Promise<void>;
+
+  // Bookings
+  bookings: Booking[];
+  bookingsLoading: boolean;
+  bookingsError: string | null;
+  bookingsPagination: Pagination | null;
+  bookingsQuery: BookingsQuery;
+  fetchBookings: (query?: BookingsQuery) => Promise<void>;
+  fetchAllBookings: (query?: BookingsQuery) => Promise<Booking[]>;
+  fetchPackageBookings: (packageId: string) => Promise<Booking[]>;
+  fetchBookingById: (id: string) => Promise<Booking | null>;
+  confirmBooking: (bookingId: string) => Promise<void>;
+  completeBooking: (bookingId: string) => Promise<void>;
+  cancelBooking: (bookingId: string, reason: string) => Promise<void>;
+  deleteBooking: (bookingId: string) => Promise<void>;
+
+  // Carousel
+  carouselItems: CarouselItem[];
+  carouselLoading: boolean;
+  carouselError: string | null;
+  fetchCarouselItems: () => Promise<void>;
+  fetchCarouselItemById: (id: string) => Promise<CarouselItem | null>;
+  createCarouselItem: (
+    itemData: Omit<CarouselItem, 'id' | 'createdAt' | 'updatedAt'>
+  ) => Promise<void>;
+  updateCarouselItem: (
+    id: string,
+    itemData: Partial<CarouselItem>
+  ) => Promise<void>;
+  deleteCarouselItem: (id: string) => Promise<void>;
+  toggleCarouselItemActive: (id: string) => Promise<void>;
+  reorderCarouselItems: (orderedIds: string[]) => Promise<void>;
+
+  // Media
+  mediaAssets: MediaAsset[];
+  mediaLoading: boolean;
+  mediaError: string | null;
+  fetchMediaAssets: () => Promise<void>;
 }
 
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
+// Walks every page of a list endpoint, since the API caps the page size
+const fetchAllPages = async <T>(path: string, query: object = {}): Promise<T[]> => {
+  const limit = 100;
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const response = await apiClient.get(`${path}?${buildQueryParams({ ...query, page, limit })}`);
+    const data: T[] = response.data.data || response.data;
+    items.push(...data);
+    const pagination: Pagination | undefined = response.data.pagination;
+    if (!pagination || page >= pagination.pages || data.length === 0) {
+      return items;
+    }
+  }
+};
+
+// The API says why it refused a change in the response body; fall back when it does not
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+  const message = axios.isAxiosError(error) ? error.response?.data?.message : undefined;
+  return typeof message === 'string' && message ? message : fallback;
+};
+
+// Status changes only touch one row, so patch it in place instead of refetching
+const withBookingStatus = (
+  bookings: Booking[],
+  bookingId: string,
+  status: BookingStatus,
+  changes: Partial<Booking> = {}
+) =>
+  bookings.map((booking) =>
+    booking.id === bookingId ? { ...booking, ...changes, status } : booking
+  );
+
+// Catch moves the state machine forbids before they reach the API; bookings
+// that are not in the loaded list are left for the API to check
+const assertBookingTransition = (
+  bookings: Booking[],
+  bookingId: string,
+  status: BookingStatus
+) => {
+  const booking = bookings.find((b) => b.id === bookingId);
+  if (booking && !canTransitionBooking(booking.status, status)) {
+    throw new Error(`A ${booking.status.toLowerCase()} booking cannot be changed to ${status.toLowerCase()}`);
+  }
+};
 
 export const useAdminStore = create<AdminState>()(
   persist(
@@ -149,24 +385,43 @@ export const useAdminStore = create<AdminState>()(
       packages: [],
       packagesLoading: false,
       packagesError: null,
+      packagesPagination: null,
+      packagesQuery: {},
+      allPackages: [],
+      allPackagesLoading: false,
+      allPackagesError: null,
 
       // Review state
       reviews: [],
       reviewsLoading: false,
       reviewsError: null,
       reviewsPagination: null,
+      allReviews: [],
+      allReviewsLoading: false,
+      allReviewsError: null,
+
+      // Booking state
+      bookings: [],
+      bookingsLoading: false,
+      bookingsError: null,
+      bookingsPagination: null,
+      bookingsQuery: {},
+
+      // Carousel state
+      carouselItems: [],
+      carouselLoading: false,
+      carouselError: null,
+
+      // Media state
+      mediaAssets: [],
+      mediaLoading: false,
+      mediaError: null,
 
       fetchHealthStatus: async () => {
         set({ loading: true, error: null });
         try {
-          const { accessToken } = get();
-          const headers = accessToken
-            ? { Authorization: `Bearer ${accessToken}` }
-            : {};
-
-          const response = await axios.get(`${API_BASE_URL}/health`, {
+          const response = await apiClient.get('/health', {
             timeout: 5000,
-            headers,
           });
           set({ healthData: response.data, loading: false });
         } catch (error) {
@@ -228,6 +483,8 @@ export const useAdminStore = create<AdminState>()(
       refreshAccessToken: async () => {
         const { refreshToken } = get();
         if (!refreshToken) {
+          // Without a refresh token the session cannot be recovered, so drop it
+          get().logout();
           throw new Error('No refresh token available');
         }
 
@@ -258,17 +515,14 @@ export const useAdminStore = create<AdminState>()(
       },
 
       // Package management methods
-      fetchPackages: async () => {
-        set({ packagesLoading: true, packagesError: null });
+      fetchPackages: async (query = {}) => {
+        set({ packagesLoading: true, packagesError: null, packagesQuery: query });
         try {
-          const { accessToken } = get();
-          const response = await axios.get(`${API_BASE_URL}/packages`, {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-            },
-          });
+          const params = buildQueryParams(query);
+          const response = await apiClient.get(`/packages?${params}`);
           set({
             packages: response.data.data || response.data,
+            packagesPagination: response.data.pagination || null,
             packagesLoading: false,
           });
         } catch (error) {
@@ -280,14 +534,25 @@ export const useAdminStore = create<AdminState>()(
         }
       },
 
-      fetchPackageById: async (id) => {
+      fetchAllPackages: async () => {
+        set({ allPackagesLoading: true, allPackagesError: null });
         try {
-          const { accessToken } = get();
-          const response = await axios.get(`${API_BASE_URL}/packages/${id}`, {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-            },
+          set({
+            allPackages: await fetchAllPages<TourPackage>('/packages'),
+            allPackagesLoading: false,
+          });
+        } catch (error) {
+          console.error('Error fetching all packages:', error);
+          set({
+            allPackagesError: 'Failed to fetch packages',
+            allPackagesLoading: false,
           });
+        }
+      },
+
+      fetchPackageById: async (id) => {
+        try {
+          const response = await apiClient.get(`/packages/${id}`);
           return response.data.data || response.data;
         } catch (error) {
           console.error('Error fetching package by ID:', error);
@@ -297,19 +562,9 @@ export const useAdminStore = create<AdminState>()(
 
       createPackage: async (packageData) => {
         try {
-          const { accessToken } = get();
-          const response = await axios.post(
-            `${API_BASE_URL}/packages`,
-            packageData,
-            {
-              headers: {
-                Authorization: `Bearer ${accessToken}`,
-                'Content-Type': 'application/json',
-              },
-            }
-          );
+          const response = await apiClient.post('/packages', packageData);
           // Refresh packages list after creation
-          await get().fetchPackages();
+          await get().fetchPackages(get().packagesQuery);
           return response.data;
         } catch (error) {
           console.error('Error creating package:', error);
@@ -319,19 +574,12 @@ export const useAdminStore = create<AdminState>()(
 
       updatePackage: async (id, packageData) => {
         try {
-          const { accessToken } = get();
-          const response = await axios.patch(
-            `${API_BASE_URL}/packages/${id}`,
-            packageData,
-            {
-              headers: {
-                Authorization: `Bearer ${accessToken}`,
-                'Content-Type': 'application/json',
-              },
-            }
+          const response = await apiClient.patch(
+            `/packages/${id}`,
+            packageData
           );
           // Refresh packages list after update
-          await get().fetchPackages();
+          await get().fetchPackages(get().packagesQuery);
           return response.data;
         } catch (error) {
           console.error('Error updating package:', error);
@@ -340,15 +588,23 @@ export const useAdminStore = create<AdminState>()(
       },
 
       deletePackage: async (id) => {
+        // Check the live package rather than the list, which may be stale or omit bookingsCount
+        const tourPackage = await get().fetchPackageById(id);
+        if (!tourPackage) {
+          throw new Error('Failed to load package');
+        }
+        if (tourPackage.status !== 'DRAFT') {
+          throw new Error('Only draft packages can be deleted');
+        }
+        const bookings = await get().fetchPackageBookings(id);
+        if (bookings.length > 0) {
+          throw new Error(`This package has ${bookings.length} booking(s) and cannot be deleted`);
+        }
+
         try {
-          const { accessToken } = get();
-          await axios.delete(`${API_BASE_URL}/packages/${id}`, {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-            },
-          });
+          await apiClient.delete(`/packages/${id}`);
           // Refresh packages list after deletion
-          await get().fetchPackages();
+          await get().fetchPackages(get().packagesQuery);
         } catch (error) {
           console.error('Error deleting package:', error);
           throw new Error('Failed to delete package');
@@ -359,7 +615,6 @@ export const useAdminStore = create<AdminState>()(
       fetchAllReviews: async (page = 1, limit = 10, verified?: boolean) => {
         set({ reviewsLoading: true, reviewsError: null });
         try {
-          const { accessToken } = get();
           const params = new URLSearchParams({
             page: page.toString(),
             limit: limit.toString(),
@@ -368,14 +623,7 @@ export const useAdminStore = create<AdminState>()(
             params.append('verified', verified.toString());
           }
 
-          const response = await axios.get(
-            `${API_BASE_URL}/admin/reviews?${params}`,
-            {
-              headers: {
-                Authorization: `Bearer ${accessToken}`,
-              },
-            }
-          );
+          const response = await apiClient.get(`/admin/reviews?${params}`);
 
           const reviewsResponse: ReviewsResponse = response.data;
           set({
@@ -394,17 +642,27 @@ export const useAdminStore = create<AdminState>()(
         }
       },
 
+      fetchAllReviewPages: async () => {
+        set({ allReviewsLoading: true, allReviewsError: null });
+        try {
+          set({
+            allReviews: await fetchAllPages<Review>('/admin/reviews'),
+            allReviewsLoading: false,
+          });
+        } catch (error) {
+          console.error('Error fetching all reviews:', error);
+          set({
+            allReviewsError: 'Failed to fetch reviews',
+            allReviewsLoading: false,
+          });
+        }
+      },
+
       fetchPackageReviews: async (packageId: string, page = 1, limit = 10) => {
         set({ reviewsLoading: true, reviewsError: null });
         try {
-          const { accessToken } = get();
-          const response = await axios.get(
-            `${API_BASE_URL}/packages/${packageId}/reviews?page=${page}&limit=${limit}`,
-            {
-              headers: {
-                Authorization: `Bearer ${accessToken}`,
-              },
-            }
+          const response = await apiClient.get(
+            `/packages/${packageId}/reviews?page=${page}&limit=${limit}`
           );
 
           const reviewsResponse: ReviewsResponse = response.data;
@@ -426,16 +684,7 @@ export const useAdminStore = create<AdminState>()(
 
       approveReview: async (reviewId: string) => {
         try {
-          const { accessToken } = get();
-          await axios.patch(
-            `${API_BASE_URL}/admin/reviews/${reviewId}/approve`,
-            {},
-            {
-              headers: {
-                Authorization: `Bearer ${accessToken}`,
-              },
-            }
-          );
+          await apiClient.patch(`/admin/reviews/${reviewId}/approve`);
           // Refresh reviews after approval
           await get().fetchAllReviews();
         } catch (error) {
@@ -445,18 +694,260 @@ export const useAdminStore = create<AdminState>()(
 
       deleteReview: async (reviewId: string) => {
         try {
-          const { accessToken } = get();
-          await axios.delete(`${API_BASE_URL}/admin/reviews/${reviewId}`, {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-            },
-          });
+          await apiClient.delete(`/admin/reviews/${reviewId}`);
           // Refresh reviews after deletion
           await get().fetchAllReviews();
         } catch (error) {
           throw new Error('Failed to delete review');
         }
       },
+
+      // Booking functions
+      fetchBookings: async (query = {}) => {
+        set({ bookingsLoading: true, bookingsError: null, bookingsQuery: query });
+        try {
+          const params = buildQueryParams(query);
+          const response = await apiClient.get(`/bookings?${params}`);
+          set({
+            bookings: response.data.data || response.data,
+            bookingsPagination: response.data.pagination || null,
+            bookingsLoading: false,
+          });
+        } catch (error) {
+          set({
+            bookingsError:
+              error instanceof Error
+                ? error.message
+                : 'Failed to fetch bookings',
+            bookingsLoading: false,
+          });
+        }
+      },
+
+      // Every booking matching the filters across all pages (page and limit are ignored);
+      // leaves the bookings list alone
+      fetchAllBookings: async (query = {}) => {
+        try {
+          return await fetchAllPages<Booking>('/bookings', query);
+        } catch (error) {
+          console.error('Error fetching all bookings:', error);
+          throw new Error('Failed to fetch bookings');
+        }
+      },
+
+      fetchPackageBookings: async (packageId) => {
+        return get().fetchAllBookings({ packageId });
+      },
+
+      fetchBookingById: async (id) => {
+        try {
+          const response = await apiClient.get(`/bookings/${id}`);
+          return response.data.data || response.data;
+        } catch (error) {
+          console.error('Error fetching booking by ID:', error);
+          return null;
+        }
+      },
+
+      confirmBooking: async (bookingId: string) => {
+        assertBookingTransition(get().bookings, bookingId, 'CONFIRMED');
+        try {
+          await apiClient.patch(`/bookings/${bookingId}/confirm`);
+          set({
+            bookings: withBookingStatus(get().bookings, bookingId, 'CONFIRMED'),
+          });
+        } catch (error) {
+          console.error('Error confirming booking:', error);
+          throw new Error(getApiErrorMessage(error, 'Failed to confirm booking'));
+        }
+      },
+
+      completeBooking: async (bookingId: string) => {
+        assertBookingTransition(get().bookings, bookingId, 'COMPLETED');
+        try {
+          await apiClient.patch(`/bookings/${bookingId}/complete`);
+          set({
+            bookings: withBookingStatus(get().bookings, bookingId, 'COMPLETED'),
+          });
+        } catch (error) {
+          console.error('Error completing booking:', error);
+          throw new Error(getApiErrorMessage(error, 'Failed to complete booking'));
+        }
+      },
+
+      cancelBooking: async (bookingId: string, reason: string) => {
+        if (!reason.trim()) {
+          throw new Error('A cancellation reason is required');
+        }
+        assertBookingTransition(get().bookings, bookingId, 'CANCELLED');
+        try {
+          await apiClient.patch(`/bookings/${bookingId}/cancel`, {
+            reason: reason.trim(),
+          });
+          set({
+            bookings: withBookingStatus(get().bookings, bookingId, 'CANCELLED', {
+              cancellationReason: reason.trim(),
+            }),
+          });
+        } catch (error) {
+          console.error('Error cancelling booking:', error);
+          throw new Error(getApiErrorMessage(error, 'Failed to cancel booking'));
+        }
+      },
+
+      deleteBooking: async (bookingId: string) => {
+        try {
+          await apiClient.delete(`/bookings/${bookingId}`);
+          const { bookings, bookingsPagination } = get();
+          set({
+            bookings: bookings.filter((booking) => booking.id !== bookingId),
+            bookingsPagination: bookingsPagination && {
+              ...bookingsPagination,
+              total: bookingsPagination.total - 1,
+            },
+          });
+        } catch (error) {
+          console.error('Error deleting booking:', error);
+          throw new Error('Failed to delete booking');
+        }
+      },
+
+      // Carousel functions
+      fetchCarouselItems: async () => {
+        set({ carouselLoading: true, carouselError: null });
+        try {
+          const response = await apiClient.get('/carousel/admin');
+          set({
+            carouselItems: response.data.data || [],
+            carouselLoading: false,
+          });
+        } catch (error) {
+          console.error('Error fetching carousel items:', error);
+          set({
+            carouselError: 'Failed to fetch carousel items',
+            carouselLoading: false,
+          });
+        }
+      },
+
+      fetchCarouselItemById: async (id) => {
+        try {
+          const response = await apiClient.get(`/carousel/${id}`);
+          return response.data.data || null;
+        } catch (error) {
+          console.error('Error fetching carousel item by ID:', error);
+          return null;
+        }
+      },
+
+      createCarouselItem: async (itemData) => {
+        try {
+          await apiClient.post('/carousel', itemData);
+          // Refresh carousel list after creation
+          await get().fetchCarouselItems();
+        } catch (error) {
+          console.error('Error creating carousel item:', error);
+          throw new Error('Failed to create carousel item');
+        }
+      },
+
+      updateCarouselItem: async (id, itemData) => {
+        try {
+          await apiClient.patch(`/carousel/${id}`, itemData);
+          // Refresh carousel list after update
+          await get().fetchCarouselItems();
+        } catch (error) {
+          console.error('Error updating carousel item:', error);
+          throw new Error('Failed to update carousel item');
+        }
+      },
+
+      deleteCarouselItem: async (id) => {
+        try {
+          await apiClient.delete(`/carousel/${id}`);
+          // Refresh carousel list after deletion
+          await get().fetchCarouselItems();
+        } catch (error) {
+          console.error('Error deleting carousel item:', error);
+          throw new Error('Failed to delete carousel item');
+        }
+      },
+
+      toggleCarouselItemActive: async (id) => {
+        const item = get().carouselItems.find((i) => i.id === id);
+        if (!item) {
+          throw new Error('Carousel item not found');
+        }
+        await get().updateCarouselItem(id, { isActive: !item.isActive });
+      },
+
+      reorderCarouselItems: async (orderedIds) => {
+        const previousItems = get().carouselItems;
+        const previousSortOrder = new Map(
+          previousItems.map((item) => [item.id, item.sortOrder])
+        );
+        const reorderedItems = orderedIds
+          .map((id) => previousItems.find((item) => item.id === id))
+          .filter((item): item is CarouselItem => !!item)
+          .map((item, index) => ({ ...item, sortOrder: index }));
+        const changedItems = reorderedItems.filter(
+          (item) => previousSortOrder.get(item.id) !== item.sortOrder
+        );
+
+        if (changedItems.length === 0) {
+          return;
+        }
+
+        // Optimistically show the new order while the PATCHes are in flight
+        set({ carouselItems: reorderedItems });
+
+        const results = await Promise.allSettled(
+          changedItems.map((item) =>
+            apiClient.patch(`/carousel/${item.id}`, {
+              sortOrder: item.sortOrder,
+            })
+          )
+        );
+        if (results.every((result) => result.status === 'fulfilled')) {
+          return;
+        }
+
+        // Put back the slides that did save so the server matches the restored order
+        await Promise.allSettled(
+          changedItems
+            .filter((_, index) => results[index].status === 'fulfilled')
+            .map((item) =>
+              apiClient.patch(`/carousel/${item.id}`, {
+                sortOrder: previousSortOrder.get(item.id),
+              })
+            )
+        );
+        set({ carouselItems: previousItems });
+        throw new Error('Failed to save carousel order');
+      },
+
+      // Media functions
+      fetchMediaAssets: async () => {
+        set({ mediaLoading: true, mediaError: null });
+        try {
+          const response = await apiClient.get('/upload/images');
+          const assets: MediaAsset[] = response.data.data || [];
+          set({
+            // Uploads are stored with server-relative URLs, like the upload response
+            mediaAssets: assets.map((asset) => ({
+              ...asset,
+              url: asset.url.startsWith('/') ? `${API_BASE_URL}${asset.url}` : asset.url,
+            })),
+            mediaLoading: false,
+          });
+        } catch (error) {
+          console.error('Error fetching media assets:', error);
+          set({
+            mediaError: 'Failed to fetch media library',
+            mediaLoading: false,
+          });
+        }
+      },
     }),
     {
       name: 'admin-auth-storage',
@@ -469,3 +960,13 @@ export const useAdminStore = create<AdminState>()(
     }
   )
 );
+
+configureApiClient({
+  getAccessToken: () => useAdminStore.getState().accessToken,
+  refreshAccessToken: () => useAdminStore.getState().refreshAccessToken(),
+  onAuthFailure: () => {
+    if (typeof window !== 'undefined') {
+      window.location.href = '/admin-login';
+    }
+  },
+});
@@ -0,0 +1,57 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { PackageFormValues } from '@/lib/packageSchema';
+
+// Each template holds a full form, itinerary and images included, so keep the list short
+export const MAX_PACKAGE_TEMPLATES = 20;
+
+// Saved form values for starting new packages; kept in this browser only
+export interface PackageTemplate {
+  id: string;
+  name: string;
+  values: PackageFormValues;
+  createdAt: string;
+}
+
+interface PackageTemplateState {
+  packageTemplates: PackageTemplate[];
+  savePackageTemplate: (name: string, values: PackageFormValues) => void;
+  deletePackageTemplate: (id: string) => void;
+}
+
+// Persisted apart from the admin session so content never rides along with auth state
+export const usePackageTemplateStore = create<PackageTemplateState>()(
+  persist(
+    (set, get) => ({
+      packageTemplates: [],
+
+      savePackageTemplate: (name, values) => {
+        if (get().packageTemplates.length >= MAX_PACKAGE_TEMPLATES) {
+          throw new Error(
+            `You can keep up to ${MAX_PACKAGE_TEMPLATES} templates. Delete one before saving another.`
+          );
+        }
+        const template: PackageTemplate = {
+          id: `template-${Date.now()}`,
+          name,
+          values,
+          createdAt: new Date().toISOString(),
+        };
+        set({ packageTemplates: [...get().packageTemplates, template] });
+      },
+
+      deletePackageTemplate: (id) => {
+        set({
+          packageTemplates: get().packageTemplates.filter((template) => template.id !== id),
+        });
+      },
+    }),
+    {
+      name: 'package-templates',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ packageTemplates: state.packageTemplates }),
+    }
+  )
+);